@@ -49,6 +49,38 @@ export function matchWordBackwards(
     return {query, separatorChar};
 }
 
+let wordSegmenter: any = null;
+
+/**
+ * Returns the last word of the given text using Intl.Segmenter, which also splits scripts that don't separate words
+ * with spaces, like Chinese or Japanese. Returns the whole text if Intl.Segmenter is not available.
+ */
+export function lastSegmentedWord(text: string): string {
+    const Segmenter = (Intl as any).Segmenter;
+    if (!Segmenter || !text)
+        return text;
+
+    wordSegmenter ??= new Segmenter(undefined, {granularity: "word"});
+    let lastWord = text;
+    for (let segment of wordSegmenter.segment(text))
+        lastWord = segment.segment;
+
+    return lastWord;
+}
+
+/**
+ * Like {@link matchWordBackwards}, but additionally includes `/`, `-` and `_`, which are valid inside of tags.
+ */
+export function matchTagBackwards(
+    editor: Editor,
+    cursor: EditorPosition,
+    characterRegex: string,
+    maxLookBackDistance: number = 50
+): { query: string, separatorChar: string } {
+    const regex = new RegExp("[" + characterRegex + "/\\-_]", "u");
+    return matchWordBackwards(editor, cursor, (char) => regex.test(char), maxLookBackDistance);
+}
+
 export function isInFrontMatterBlock(editor: Editor, pos: EditorPosition): boolean {
     if (pos.line === 0)
         return false;
@@ -88,6 +120,41 @@ function getFrontMatterBounds(editor: Editor): { startLine: number, endLine: num
     return {startLine, endLine};
 }
 
+const CODE_FENCE_REGEX = /^\s*(`{3,}|~{3,})\s*([^\s`]*)/;
+
+/**
+ * Returns the language of the fenced code block which contains the given position. Unlabeled code blocks have an
+ * empty language. Returns null if the position is not inside a fenced code block.
+ */
+export function getCodeBlockLanguage(editor: Editor, pos: EditorPosition): string | null {
+    let openFence: { fence: string, language: string } = null;
+    for (let i = Math.max(0, pos.line - 5000); i < pos.line; i++) {
+        const match = CODE_FENCE_REGEX.exec(editor.getLine(i));
+        if (!match)
+            continue;
+
+        if (!openFence) {
+            openFence = {fence: match[1], language: match[2]};
+        } else if (match[1].charAt(0) === openFence.fence.charAt(0) && match[1].length >= openFence.fence.length && !match[2]) {
+            openFence = null;
+        }
+    }
+
+    return openFence?.language ?? null;
+}
+
+/**
+ * Checks if the given position is inside a fenced code block or inline code.
+ */
+export function isInCodeBlock(editor: Editor, pos: EditorPosition): boolean {
+    if (getCodeBlockLanguage(editor, pos) !== null)
+        return true;
+
+    // An odd number of backticks in front of the cursor means that we're inside inline code
+    const before = editor.getLine(pos.line).substring(0, pos.ch);
+    return (before.match(/`/g)?.length ?? 0) % 2 === 1;
+}
+
 export class BlockType {
     public static DOLLAR_MULTI = new BlockType("$$", true);
     public static DOLLAR_SINGLE = new BlockType("$", false, BlockType.DOLLAR_MULTI);
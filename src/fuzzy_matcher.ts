@@ -0,0 +1,176 @@
+/*
+ * Every kind of match has its own score tier. Within a tier, the score is adjusted by at most TIER_RANGE in either
+ * direction, so that a better kind of match always wins.
+ */
+const EXACT_MATCH_SCORE = 4000;
+const PREFIX_MATCH_SCORE = 3000;
+const SUBSTRING_MATCH_SCORE = 2000;
+const SUBSEQUENCE_MATCH_SCORE = 1000;
+const TYPO_MATCH_SCORE = 0;
+export const TIER_RANGE = 500;
+
+const CASE_MATCH_BONUS = 10;
+const CONSECUTIVE_BONUS = 5;
+const WORD_BOUNDARY_BONUS = 8;
+const TYPO_MIN_QUERY_LENGTH = 4;
+
+const DIACRITICS_REGEX = /[\u0300-\u036f]/g;
+const WORD_CHAR_REGEX = /[\p{L}\p{N}]/u;
+
+export interface MatchOptions {
+    ignoreCase: boolean,
+    ignoreDiacritics?: boolean,
+    /**
+     * Whether the query is allowed to appear anywhere inside the text, instead of only at the start.
+     */
+    matchSubstring?: boolean,
+    /**
+     * Whether subsequence matches (`fmt` -> `format`), camel-hump matches (`gBR` -> `getBusinessReview`) and matches
+     * with a single typo (`hlelo` -> `hello`) are allowed.
+     */
+    fuzzy?: boolean,
+}
+
+/**
+ * Scores how well the query matches the text. Higher scores are better matches.
+ * @returns The score, or null if the query does not match the text at all
+ */
+export function matchScore(query: string, text: string, options: MatchOptions): number | null {
+    const normalizedQuery = normalize(query, options);
+    const normalizedText = normalize(text, options);
+
+    if (normalizedText.startsWith(normalizedQuery)) {
+        const tier = normalizedText.length === normalizedQuery.length ? EXACT_MATCH_SCORE : PREFIX_MATCH_SCORE;
+        return tier + clampToTier(caseMatchBonus(query, text, 0) - (text.length - query.length));
+    }
+
+    if (options.matchSubstring) {
+        const index = normalizedText.indexOf(normalizedQuery);
+        if (index !== -1)
+            return SUBSTRING_MATCH_SCORE + clampToTier(caseMatchBonus(query, text, index) - index - (text.length - query.length));
+    }
+
+    if (!options.fuzzy)
+        return null;
+
+    const subsequenceBonus = subsequenceMatch(normalizedQuery, normalizedText, text);
+    if (subsequenceBonus !== null)
+        return SUBSEQUENCE_MATCH_SCORE + clampToTier(subsequenceBonus - (text.length - query.length));
+
+    if (normalizedQuery.length >= TYPO_MIN_QUERY_LENGTH && hasSingleTypoPrefix(normalizedQuery, normalizedText))
+        return TYPO_MATCH_SCORE + clampToTier(-(text.length - query.length));
+
+    return null;
+}
+
+export function removeDiacritics(str: string): string {
+    return str.normalize("NFD").replace(DIACRITICS_REGEX, "");
+}
+
+function normalize(str: string, options: MatchOptions): string {
+    if (options.ignoreCase)
+        str = str.toLowerCase();
+    if (options.ignoreDiacritics)
+        str = removeDiacritics(str);
+    return str;
+}
+
+function clampToTier(value: number): number {
+    return Math.max(-TIER_RANGE, Math.min(TIER_RANGE, value));
+}
+
+/*
+ * Rewards texts which match the exact casing of the query.
+ */
+function caseMatchBonus(query: string, text: string, offset: number): number {
+    if (query.length < 1)
+        return 0;
+
+    let matching = 0;
+    for (let i = 0; i < query.length; i++) {
+        if (query.charAt(i) === text.charAt(offset + i))
+            matching++;
+    }
+
+    return Math.round(CASE_MATCH_BONUS * matching / query.length);
+}
+
+/*
+ * Greedily matches each character of the query in order. Matches which follow each other or start a new word are
+ * rewarded, skipped characters are penalized.
+ */
+function subsequenceMatch(query: string, text: string, originalText: string): number | null {
+    let bonus = 0;
+    let previousIndex = -1;
+    for (let i = 0; i < query.length; i++) {
+        const index = text.indexOf(query.charAt(i), previousIndex + 1);
+        if (index === -1)
+            return null;
+
+        if (index === previousIndex + 1)
+            bonus += CONSECUTIVE_BONUS;
+        else
+            bonus -= index - previousIndex - 1;
+
+        if (isWordBoundary(originalText, index))
+            bonus += WORD_BOUNDARY_BONUS;
+
+        previousIndex = index;
+    }
+
+    return bonus;
+}
+
+function isWordBoundary(text: string, index: number): boolean {
+    if (index === 0)
+        return true;
+
+    const prev = text.charAt(index - 1), current = text.charAt(index);
+    if (!WORD_CHAR_REGEX.test(prev))
+        return true;
+
+    // Camel humps
+    return current !== current.toLowerCase() && prev === prev.toLowerCase();
+}
+
+/*
+ * Checks if the start of the text can be turned into the query with a single insertion, deletion, substitution or
+ * transposition.
+ */
+function hasSingleTypoPrefix(query: string, text: string): boolean {
+    for (let length = query.length - 1; length <= query.length + 1; length++) {
+        if (length > text.length)
+            break;
+
+        if (damerauLevenshteinDistance(query, text.substring(0, length), 1) <= 1)
+            return true;
+    }
+
+    return false;
+}
+
+function damerauLevenshteinDistance(a: string, b: string, maxDistance: number): number {
+    if (Math.abs(a.length - b.length) > maxDistance)
+        return maxDistance + 1;
+
+    let twoRowsBack: number[] = [];
+    let previousRow: number[] = [];
+    for (let j = 0; j <= b.length; j++)
+        previousRow.push(j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const currentRow = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+            let value = Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + cost);
+            if (i > 1 && j > 1 && a.charAt(i - 1) === b.charAt(j - 2) && a.charAt(i - 2) === b.charAt(j - 1))
+                value = Math.min(value, twoRowsBack[j - 2] + 1);
+            currentRow.push(value);
+        }
+
+        twoRowsBack = previousRow;
+        previousRow = currentRow;
+    }
+
+    return previousRow[b.length];
+}
@@ -0,0 +1,219 @@
+const NEW_LINE_REGEX = /\r?\n/;
+const WHITESPACE_REGEX = /\s+/;
+
+type FlagType = "short" | "long" | "num" | "UTF-8";
+
+interface AffixRule {
+    strip: string,
+    affix: string,
+    condition: RegExp,
+}
+
+interface Affix {
+    isPrefix: boolean,
+    /**
+     * Whether this affix can be combined with affixes of the other kind.
+     */
+    crossProduct: boolean,
+    rules: AffixRule[],
+}
+
+/**
+ * The parts of a hunspell `.aff` file which are needed to generate all forms of the words in a `.dic` file.
+ */
+export interface HunspellAffixes {
+    flagType: FlagType,
+    affixes: Map<string, Affix>,
+    /**
+     * The flag sets of the `AF` directive. Dictionaries can use the 1-based index of a set instead of the flags.
+     */
+    flagAliases: string[],
+    /**
+     * Flags which mark words that are not valid on their own.
+     */
+    stemOnlyFlags: Set<string>,
+    forbiddenFlags: Set<string>,
+}
+
+export function parseAffixFile(text: string): HunspellAffixes {
+    const result: HunspellAffixes = {
+        flagType: "short",
+        affixes: new Map<string, Affix>(),
+        flagAliases: [],
+        stemOnlyFlags: new Set<string>(),
+        forbiddenFlags: new Set<string>(),
+    };
+
+    const lines = text.split(NEW_LINE_REGEX);
+    for (let i = 0; i < lines.length; i++) {
+        const parts = lines[i].trim().split(WHITESPACE_REGEX);
+        switch (parts[0]) {
+            case "FLAG":
+                result.flagType = parts[1] as FlagType;
+                break;
+            case "AF":
+                //The first AF line only contains the number of aliases
+                if (parts.length > 1 && !/^\d+$/.test(parts[1]))
+                    result.flagAliases.push(parts[1]);
+                break;
+            case "NEEDAFFIX":
+            case "PSEUDOROOT":
+            case "ONLYINCOMPOUND":
+                result.stemOnlyFlags.add(parts[1]);
+                break;
+            case "FORBIDDENWORD":
+                result.forbiddenFlags.add(parts[1]);
+                break;
+            case "PFX":
+            case "SFX": {
+                //The header is followed by the given number of rules
+                const isPrefix = parts[0] === "PFX";
+                const affix: Affix = {isPrefix, crossProduct: parts[2] === "Y", rules: []};
+                const count = parseInt(parts[3]);
+                for (let j = 0; j < count && i + 1 < lines.length; j++) {
+                    const rule = lines[++i].trim().split(WHITESPACE_REGEX);
+                    if (rule.length < 4 || rule[0] !== parts[0] || rule[1] !== parts[1])
+                        continue;
+
+                    affix.rules.push(parseAffixRule(rule[2], rule[3], rule[4] ?? ".", isPrefix));
+                }
+
+                result.affixes.set(parts[1], affix);
+                break;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Returns all words of a hunspell `.dic` file, including the forms generated by their affix flags. Without affixes,
+ * only the flags and the header are removed. Stops once the given number of words was generated.
+ */
+export function expandHunspellDictionary(text: string, affixes: HunspellAffixes | null, maxWords: number): string[] {
+    const words = new Set<string>();
+    const lines = text.split(NEW_LINE_REGEX);
+    //The first line contains the approximate number of words
+    const start = /^\s*\d+\s*$/.test(lines[0]) ? 1 : 0;
+
+    for (let i = start; i < lines.length && words.size < maxWords; i++) {
+        const line = lines[i];
+        //Lines starting with whitespace are comments, morphological fields are separated by whitespace as well
+        if (!line || /^\s/.test(line))
+            continue;
+
+        const entry = line.split(WHITESPACE_REGEX)[0];
+        const separatorIndex = findFlagSeparator(entry);
+        const word = (separatorIndex === -1 ? entry : entry.substring(0, separatorIndex)).replace(/\\\//g, "/");
+        if (!affixes || separatorIndex === -1) {
+            words.add(word);
+            continue;
+        }
+
+        const flags = parseFlags(entry.substring(separatorIndex + 1), affixes);
+        addWordForms(word, flags, affixes, words, maxWords);
+    }
+
+    return Array.from(words).slice(0, maxWords);
+}
+
+function addWordForms(word: string, flags: string[], affixes: HunspellAffixes, words: Set<string>, maxWords: number) {
+    if (flags.some(flag => affixes.forbiddenFlags.has(flag)))
+        return;
+    if (!flags.some(flag => affixes.stemOnlyFlags.has(flag)))
+        words.add(word);
+
+    const prefixes: Affix[] = [];
+    const suffixes: Affix[] = [];
+    for (let flag of flags) {
+        const affix = affixes.affixes.get(flag);
+        if (affix)
+            (affix.isPrefix ? prefixes : suffixes).push(affix);
+    }
+
+    for (let suffix of suffixes) {
+        for (let suffixed of applyAffix(word, suffix)) {
+            words.add(suffixed);
+            if (!suffix.crossProduct)
+                continue;
+
+            for (let prefix of prefixes) {
+                if (prefix.crossProduct)
+                    applyAffix(suffixed, prefix).forEach(w => words.add(w));
+            }
+        }
+
+        if (words.size >= maxWords)
+            return;
+    }
+
+    for (let prefix of prefixes)
+        applyAffix(word, prefix).forEach(w => words.add(w));
+}
+
+function applyAffix(word: string, affix: Affix): string[] {
+    const result: string[] = [];
+    for (let rule of affix.rules) {
+        if (!rule.condition.test(word))
+            continue;
+
+        if (affix.isPrefix) {
+            if (word.startsWith(rule.strip))
+                result.push(rule.affix + word.substring(rule.strip.length));
+        } else if (word.endsWith(rule.strip)) {
+            result.push(word.substring(0, word.length - rule.strip.length) + rule.affix);
+        }
+    }
+
+    return result;
+}
+
+function parseAffixRule(strip: string, affix: string, condition: string, isPrefix: boolean): AffixRule {
+    //Continuation flags after the affix are not supported
+    const flagIndex = affix.indexOf("/");
+    if (flagIndex !== -1)
+        affix = affix.substring(0, flagIndex);
+
+    let conditionRegex: RegExp;
+    try {
+        conditionRegex = new RegExp(isPrefix ? "^" + condition : condition + "$", "u");
+    } catch (e) {
+        //Never matches
+        conditionRegex = /(?!)/;
+    }
+
+    return {
+        strip: strip === "0" ? "" : strip,
+        affix: affix === "0" ? "" : affix,
+        condition: conditionRegex,
+    };
+}
+
+function parseFlags(flags: string, affixes: HunspellAffixes): string[] {
+    if (affixes.flagAliases.length > 0 && /^\d+$/.test(flags))
+        flags = affixes.flagAliases[parseInt(flags) - 1] ?? "";
+
+    switch (affixes.flagType) {
+        case "long":
+            return flags.match(/[\s\S]{1,2}/g) ?? [];
+        case "num":
+            return flags.split(",");
+        default:
+            return Array.from(flags);
+    }
+}
+
+/*
+ * Finds the slash which separates the word from its flags. Slashes inside of words are escaped with a backslash.
+ */
+function findFlagSeparator(entry: string): number {
+    for (let i = 0; i < entry.length; i++) {
+        if (entry.charAt(i) === "\\")
+            i++;
+        else if (entry.charAt(i) === "/")
+            return i;
+    }
+
+    return -1;
+}
@@ -1,4 +1,15 @@
-import {EditorPosition, editorViewField, KeymapContext, MarkdownView, Plugin, TFile,} from "obsidian";
+import {
+    CachedMetadata,
+    Component,
+    EditorPosition,
+    editorViewField,
+    KeymapContext,
+    MarkdownView,
+    Notice,
+    Plugin,
+    TAbstractFile,
+    TFile,
+} from "obsidian";
 import SnippetManager from "./snippet_manager";
 import SuggestionPopup, {SelectionDirection} from "./popup";
 import {CompletrSettings, DEFAULT_SETTINGS} from "./settings";
@@ -7,11 +18,23 @@ import {FileScanner} from "./provider/scanner_provider";
 import CompletrSettingsTab from "./settings_tab";
 import {EditorView, ViewUpdate} from "@codemirror/view";
 import {editorToCodeMirrorState, posFromIndex} from "./editor_helpers";
-import {markerStateField} from "./marker_state_field";
+import {markerStateField, mirrorMarkersFilter} from "./marker_state_field";
 import {FrontMatter} from "./provider/front_matter_provider";
 import {Latex} from "./provider/latex_provider";
 import {Callout} from "./provider/callout_provider";
+import {Link} from "./provider/link_provider";
+import {Tag} from "./provider/tag_provider";
+import {SnippetLibrary} from "./provider/snippet_provider";
+import {isExcludedFromScan} from "./scan_filter";
 import {SuggestionBlacklist} from "./provider/blacklist";
+import {SuggestionUsage} from "./provider/suggestion_usage";
+import {SuggestionProvider} from "./provider/provider";
+import {ProviderRegistrationOptions, SuggestionProviderRegistry} from "./provider/provider_registry";
+
+/**
+ * How often the words which were scanned while editing are saved. They are saved when the plugin is unloaded as well.
+ */
+const SCANNED_WORDS_SAVE_INTERVAL = 5 * 60 * 1000;
 
 export default class CompletrPlugin extends Plugin {
 
@@ -19,20 +42,50 @@ export default class CompletrPlugin extends Plugin {
 
     private snippetManager: SnippetManager;
     private _suggestionPopup: SuggestionPopup;
+    private scannedWordsLoaded: Promise<void>;
+    private vaultScanAbortController: AbortController = null;
 
     async onload() {
         await this.loadSettings();
 
         this.snippetManager = new SnippetManager();
         this._suggestionPopup = new SuggestionPopup(this.app, this.settings, this.snippetManager);
+        this.snippetManager.setSuggestionPopup(this._suggestionPopup);
 
         this.registerEditorSuggest(this._suggestionPopup);
+        this.registerBuiltInProviders();
+
+        Link.initialize(this.app);
+        Tag.initialize(this.app);
+        FileScanner.initialize(this.app);
+        WordList.initialize(this.app);
 
         this.registerEvent(this.app.workspace.on('file-open', this.onFileOpened, this));
+        //The metadata cache is updated after each modification, which makes the sections of the file available
+        this.registerEvent(this.app.metadataCache.on('changed', this.onFileModified, this));
+        this.registerEvent(this.app.vault.on('delete', file => FileScanner.onFileDeleted(this.app.vault, file.path)));
+        this.registerEvent(this.app.vault.on('rename', this.onFileRenamed, this));
         this.registerEvent(this.app.metadataCache.on('changed', FrontMatter.onCacheChange, FrontMatter));
+        //The raw event also fires for files in the config folder, which contains the snippets
+        this.registerEvent((this.app.vault as any).on('raw', (path: string) => SnippetLibrary.onFileChanged(this.app.vault, path)));
         this.app.workspace.onLayoutReady(() => FrontMatter.loadYAMLKeyCompletions(this.app.metadataCache, this.app.vault.getMarkdownFiles()));
+        //The create event is also fired for every existing file while the vault is loading
+        this.app.workspace.onLayoutReady(() => this.registerEvent(this.app.vault.on('create', file => {
+            if (file instanceof TFile && file.extension === "md")
+                FileScanner.onFileCreated(file);
+        })));
+        this.app.workspace.onLayoutReady(async () => {
+            if (!this.settings.fileScannerProviderEnabled || !this.settings.fileScannerScanOnStartup)
+                return;
+
+            //The scan would otherwise be overwritten by the words which are loaded afterwards
+            await this.scannedWordsLoaded;
+            await this.scanVault();
+        });
+        this.registerInterval(window.setInterval(() => FileScanner.saveChanges(this.app.vault), SCANNED_WORDS_SAVE_INTERVAL));
 
         this.registerEditorExtension(markerStateField);
+        this.registerEditorExtension(mirrorMarkersFilter);
         this.registerEditorExtension(EditorView.updateListener.of(new CursorActivityListener(this.snippetManager, this._suggestionPopup).listener));
 
         this.addSettingTab(new CompletrSettingsTab(this.app, this));
@@ -44,6 +97,44 @@ export default class CompletrPlugin extends Plugin {
         }
     }
 
+    /**
+     * Registers a provider which contributes suggestions to the popup. The provider is unregistered automatically
+     * once the given component, usually the plugin which calls this method, is unloaded.
+     * @example
+     * const completr = this.app.plugins.getPlugin("obsidian-completr");
+     * completr?.registerSuggestionProvider(this, myProvider, {id: "my-plugin-provider", name: "My plugin"});
+     * @param component The component which owns the provider
+     * @param provider The provider
+     * @param options The id, name and priority of the provider
+     * @returns A function which unregisters the provider
+     */
+    registerSuggestionProvider(component: Component, provider: SuggestionProvider, options: ProviderRegistrationOptions): () => void {
+        const registration = SuggestionProviderRegistry.register(provider, options);
+        const unregister = () => {
+            // Only remove our own registration, the id might have been reused in the meantime
+            if (SuggestionProviderRegistry.get(registration.id) === registration)
+                SuggestionProviderRegistry.unregister(registration.id);
+        };
+
+        component.register(unregister);
+        return unregister;
+    }
+
+    unregisterSuggestionProvider(id: string): boolean {
+        return SuggestionProviderRegistry.unregister(id);
+    }
+
+    private registerBuiltInProviders() {
+        SuggestionProviderRegistry.register(FrontMatter, {id: "completr-front-matter", name: "Front matter", priority: 500}, true);
+        SuggestionProviderRegistry.register(Link, {id: "completr-link", name: "Link", priority: 450}, true);
+        SuggestionProviderRegistry.register(Tag, {id: "completr-tag", name: "Tag", priority: 440}, true);
+        SuggestionProviderRegistry.register(Latex, {id: "completr-latex", name: "Latex", priority: 400}, true);
+        SuggestionProviderRegistry.register(SnippetLibrary, {id: "completr-snippet", name: "Snippet", priority: 350}, true);
+        SuggestionProviderRegistry.register(FileScanner, {id: "completr-file-scanner", name: "File scanner", priority: 300}, true);
+        SuggestionProviderRegistry.register(WordList, {id: "completr-word-list", name: "Word list", priority: 200}, true);
+        SuggestionProviderRegistry.register(Callout, {id: "completr-callout", name: "Callout", priority: 100}, true);
+    }
+
     private setupCommands() {
         //This replaces the default handler for commands. This is needed because the default handler always consumes
         // the event if the command exists.
@@ -113,8 +204,7 @@ export default class CompletrPlugin extends Plugin {
                 }
             ],
             editorCallback: (editor) => {
-                //This is the same function that is called by obsidian when you type a character
-                (this._suggestionPopup as any).trigger(editor, this.app.workspace.getActiveFile(), true);
+                this._suggestionPopup.triggerManually(editor, this.app.workspace.getActiveFile());
             },
             // @ts-ignore
             isVisible: () => !this._suggestionPopup.isVisible()
@@ -242,7 +332,7 @@ export default class CompletrPlugin extends Plugin {
                     return;
                 const placeholderEnd = posFromIndex(editorToCodeMirrorState(placeholder.editor).doc, placeholder.marker.to);
 
-                if (!this.snippetManager.consumeAndGotoNextMarker(editor)) {
+                if (!this.snippetManager.gotoNextMarker(editor)) {
                     editor.setSelections([{
                         anchor: {
                             ...placeholderEnd,
@@ -260,21 +350,87 @@ export default class CompletrPlugin extends Plugin {
                 return placeholder != null;
             },
         });
+        this.addCommand({
+            id: 'completr-jump-to-previous-snippet-placeholder',
+            name: 'Jump to previous snippet placeholder',
+            hotkeys: [
+                {
+                    key: "Enter",
+                    modifiers: ["Shift"]
+                }
+            ],
+            editorCallback: (editor) => {
+                this.snippetManager.gotoPreviousMarker(editor);
+            },
+            // @ts-ignore
+            isVisible: () => {
+                const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+                if (!view)
+                    return false;
+                const placeholder = this.snippetManager.placeholderAtPos(view.editor.getCursor());
+                return placeholder != null;
+            },
+        });
+    }
+
+    /**
+     * Scans all markdown files of the vault in the background. The progress is shown in a notice, which also allows
+     * cancelling the scan.
+     */
+    async scanVault() {
+        if (this.vaultScanAbortController)
+            return;
+
+        const abortController = new AbortController();
+        this.vaultScanAbortController = abortController;
+        const notice = new ScanProgressNotice(() => abortController.abort());
+
+        const files: TFile[] = [];
+        const excludedPaths: string[] = [];
+        for (let file of this.app.vault.getMarkdownFiles()) {
+            if (isExcludedFromScan(file, this.settings, this.app.metadataCache))
+                excludedPaths.push(file.path);
+            else
+                files.push(file);
+        }
+        FileScanner.removeFiles(this.app.vault, excludedPaths);
+
+        try {
+            const completed = await FileScanner.scanFiles(this.settings, files, {
+                onProgress: (scanned, total) => notice.setProgress(scanned, total),
+                abortSignal: abortController.signal,
+            });
+            notice.finish(completed ? "Completr: Finished scanning your vault" : "Completr: Cancelled scanning your vault");
+        } catch (e) {
+            console.error("Completr: Error while scanning vault", e);
+            notice.finish("Completr: Error while scanning your vault");
+        } finally {
+            this.vaultScanAbortController = null;
+        }
     }
 
     async onunload() {
+        this.vaultScanAbortController?.abort();
         this.snippetManager.onunload();
-        await FileScanner.saveData(this.app.vault);
+        SuggestionProviderRegistry.clear();
+        await FileScanner.saveChanges(this.app.vault);
+        await SuggestionUsage.saveData(this.app.vault);
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        //The defaults are copied, as the lists and objects in them would otherwise be changed along with the settings
+        this.settings = Object.assign(JSON.parse(JSON.stringify(DEFAULT_SETTINGS)), await this.loadData());
+        FileScanner.applyPhraseSettings(this.settings);
 
-        SuggestionBlacklist.loadData(this.app.vault).then(() => {
+        this.scannedWordsLoaded = SuggestionBlacklist.loadData(this.app.vault).then(() => {
             WordList.loadFromFiles(this.app.vault, this.settings);
-            FileScanner.loadData(this.app.vault);
+            const scannedWordsLoaded = FileScanner.loadData(this.app.vault);
             Latex.loadCommands(this.app.vault);
             Callout.loadSuggestions(this.app.vault);
+            SnippetLibrary.loadSnippets(this.app.vault);
+            SuggestionUsage.loadData(this.app.vault);
+
+            return scannedWordsLoaded;
         });
     }
 
@@ -289,8 +445,28 @@ export default class CompletrPlugin extends Plugin {
     private readonly onFileOpened = (file: TFile) => {
         if (!this.settings.fileScannerProviderEnabled || !this.settings.fileScannerScanCurrent || !file)
             return;
+        if (isExcludedFromScan(file, this.settings, this.app.metadataCache))
+            return;
+
+        FileScanner.scanFile(this.settings, file, false);
+    }
+
+    private readonly onFileModified = (file: TFile, data: string, cache: CachedMetadata) => {
+        if (!this.settings.fileScannerProviderEnabled)
+            return;
+
+        if (isExcludedFromScan(file, this.settings, this.app.metadataCache))
+            FileScanner.removeFiles(this.app.vault, [file.path]);
+        else
+            FileScanner.onFileModified(this.settings, file, data, cache);
+    }
 
-        FileScanner.scanFile(this.settings, file, true);
+    private readonly onFileRenamed = (file: TAbstractFile, oldPath: string) => {
+        //A file which was moved into an excluded folder loses its words, like it would when scanning the vault
+        if (file instanceof TFile && isExcludedFromScan(file, this.settings, this.app.metadataCache))
+            FileScanner.removeFiles(this.app.vault, [oldPath]);
+        else
+            FileScanner.onFileRenamed(this.app.vault, oldPath, file.path);
     }
 }
 
@@ -327,10 +503,8 @@ class CursorActivityListener {
             this.suggestionPopup.preventNextTrigger();
         this.lastCursorLine = cursor.line;
 
-        // Clear all placeholders when moving cursor somewhere else
-        if (!this.snippetManager.placeholderAtPos(cursor)) {
-            this.snippetManager.clearAllPlaceholders();
-        }
+        // End the snippets which the cursor was moved out of
+        this.snippetManager.handleCursorActivity(cursor);
 
         // Prevents the suggestion popup from flickering when typing
         if (this.cursorTriggeredByChange) {
@@ -341,3 +515,30 @@ class CursorActivityListener {
         this.suggestionPopup.close();
     };
 }
+
+class ScanProgressNotice {
+
+    private readonly notice: Notice;
+    private readonly onCancel: () => void;
+
+    constructor(onCancel: () => void) {
+        this.onCancel = onCancel;
+        this.notice = new Notice(this.createMessage("Completr: Scanning your vault..."), 0);
+    }
+
+    setProgress(scanned: number, total: number) {
+        this.notice.setMessage(this.createMessage(`Completr: Scanned ${scanned} of ${total} files`));
+    }
+
+    finish(message: string) {
+        this.notice.hide();
+        new Notice(message);
+    }
+
+    private createMessage(text: string): DocumentFragment {
+        return createFragment(fragment => {
+            fragment.createDiv({text});
+            fragment.createEl("button", {text: "Cancel"}, button => button.onClickEvent(() => this.onCancel()));
+        });
+    }
+}
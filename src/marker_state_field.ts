@@ -1,26 +1,129 @@
-import {Range, RangeSet, StateEffect, StateField} from "@codemirror/state";
-import {Decoration, EditorView} from "@codemirror/view";
+import {EditorState, StateEffect, StateField, TransactionSpec} from "@codemirror/state";
+import {Decoration, EditorView, WidgetType} from "@codemirror/view";
 
-export const addMark = StateEffect.define<Range<Decoration>>(), clearMarks = StateEffect.define(),
-    removeMarkBySpecAttribute = StateEffect.define<{ attribute: string, reference: any }>()
+export interface Marker {
+    from: number,
+    to: number,
+    /**
+     * The placeholder which owns this marker.
+     */
+    reference: any,
+    colorIndex: number,
+    /**
+     * Mirrors always contain the same text as the marker of their reference which is not a mirror.
+     */
+    isMirror: boolean,
+    /**
+     * Bounds markers track the range of a whole snippet and are not displayed.
+     */
+    isBounds: boolean,
+}
 
-export const markerStateField = StateField.define<RangeSet<Decoration>>({
+export const addMark = StateEffect.define<Marker>(), clearMarks = StateEffect.define(),
+    removeMarksByReference = StateEffect.define<any>()
+
+/*
+ * Markers are stored as plain ranges instead of mark decorations, because mark decorations can't be empty. Empty
+ * placeholders are displayed using a widget instead.
+ */
+export const markerStateField = StateField.define<Marker[]>({
     create() {
-        return Decoration.none;
+        return [];
     },
     update(value, tr) {
-        value = value.map(tr.changes);
+        if (tr.docChanged) {
+            // Text which is typed directly at the start or end of a marker becomes part of it
+            value = value.map(marker => ({
+                ...marker,
+                from: tr.changes.mapPos(marker.from, -1),
+                to: tr.changes.mapPos(marker.to, 1)
+            }));
+        }
 
         for (let effect of tr.effects) {
             if (effect.is(addMark))
-                value = value.update({add: [effect.value]/*, sort: true*/});
+                value = [...value, effect.value];
             else if (effect.is(clearMarks))
-                value = value.update({filter: () => false});
-            else if (effect.is(removeMarkBySpecAttribute))
-                value = value.update({filter: (from, to, ref) => ref.spec[effect.value.attribute] !== effect.value[effect.value.attribute]});
+                value = [];
+            else if (effect.is(removeMarksByReference))
+                value = value.filter(marker => marker.reference !== effect.value);
         }
 
         return value;
     },
-    provide: f => EditorView.decorations.from(f)
+    provide: f => EditorView.decorations.from(f, markers => Decoration.set(markers.filter(marker => !marker.isBounds).map(marker => {
+        if (marker.from === marker.to) {
+            return Decoration.widget({
+                widget: new EmptyPlaceholderWidget(marker.colorIndex),
+                side: 1,
+            }).range(marker.from);
+        }
+
+        return Decoration.mark({
+            attributes: {
+                class: "completr-suggestion-placeholder completr-suggestion-placeholder" + marker.colorIndex
+            },
+        }).range(marker.from, marker.to);
+    }), true))
 })
+
+/**
+ * Copies the text of each edited placeholder into its mirrors as part of the same transaction, which keeps them in
+ * sync and allows undoing both at once.
+ */
+export const mirrorMarkersFilter = EditorState.transactionFilter.of(tr => {
+    if (!tr.docChanged || tr.isUserEvent("undo") || tr.isUserEvent("redo"))
+        return tr;
+
+    const markers = tr.startState.field(markerStateField, false);
+    if (!markers || !markers.some(marker => marker.isMirror))
+        return tr;
+
+    const changes: { from: number, to: number, insert: string }[] = [];
+    for (let primary of markers) {
+        if (primary.isMirror || primary.isBounds)
+            continue;
+
+        const mirrors = markers.filter(marker => marker.isMirror && marker.reference === primary.reference);
+        if (mirrors.length < 1)
+            continue;
+
+        let edited = false;
+        tr.changes.iterChangedRanges((fromA, toA) => {
+            if (fromA >= primary.from && toA <= primary.to)
+                edited = true;
+        });
+        if (!edited)
+            continue;
+
+        const text = tr.newDoc.sliceString(tr.changes.mapPos(primary.from, -1), tr.changes.mapPos(primary.to, 1));
+        for (let mirror of mirrors) {
+            const from = tr.changes.mapPos(mirror.from, -1), to = tr.changes.mapPos(mirror.to, 1);
+            if (tr.newDoc.sliceString(from, to) !== text)
+                changes.push({from, to, insert: text});
+        }
+    }
+
+    if (changes.length < 1)
+        return tr;
+
+    const mirrorSpec: TransactionSpec = {changes, sequential: true};
+    return [tr, mirrorSpec];
+});
+
+class EmptyPlaceholderWidget extends WidgetType {
+
+    constructor(private readonly colorIndex: number) {
+        super();
+    }
+
+    eq(widget: EmptyPlaceholderWidget): boolean {
+        return widget.colorIndex === this.colorIndex;
+    }
+
+    toDOM(): HTMLElement {
+        const span = document.createElement("span");
+        span.addClass("completr-suggestion-placeholder-empty", "completr-suggestion-placeholder" + this.colorIndex);
+        return span;
+    }
+}
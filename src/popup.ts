@@ -1,9 +1,7 @@
-import {Suggestion, SuggestionProvider} from "./provider/provider";
-import {Latex} from "./provider/latex_provider";
-import {WordList} from "./provider/word_list_provider";
-import {FileScanner} from "./provider/scanner_provider";
+import {Suggestion, SuggestionContext} from "./provider/provider";
 import {
     App,
+    debounce,
     Editor,
     EditorPosition,
     EditorSuggest,
@@ -13,13 +11,25 @@ import {
     TFile
 } from "obsidian";
 import SnippetManager from "./snippet_manager";
-import {CompletrSettings} from "./settings";
-import {FrontMatter} from "./provider/front_matter_provider";
-import {matchWordBackwards} from "./editor_helpers";
+import {RenderedSnippet, Snippet} from "./snippet";
+import {resolveSnippetVariable, SnippetVariableContext} from "./snippet_variables";
+import {CompletrSettings, getWordCharacters, WordSegmentation} from "./settings";
+import {
+    editorToCodeMirrorState,
+    indexFromPos,
+    lastSegmentedWord,
+    matchWordBackwards,
+    posFromIndex
+} from "./editor_helpers";
 import {SuggestionBlacklist} from "./provider/blacklist";
-import {Callout} from "./provider/callout_provider";
+import {SuggestionProviderRegistry} from "./provider/provider_registry";
+import {matchScore} from "./fuzzy_matcher";
+import {SuggestionUsage} from "./provider/suggestion_usage";
 
-const PROVIDERS: SuggestionProvider[] = [FrontMatter, Latex, FileScanner, WordList, Callout];
+/**
+ * How close to the end of the list the user has to scroll, in pixels, before more suggestions are loaded.
+ */
+const LOAD_MORE_SCROLL_THRESHOLD = 40;
 
 export default class SuggestionPopup extends EditorSuggest<Suggestion> {
     /**
@@ -27,16 +37,33 @@ export default class SuggestionPopup extends EditorSuggest<Suggestion> {
      */
     private justClosed: boolean;
     private separatorChar: string;
+    /**
+     * The choices of the snippet placeholder the popup was opened for, if any.
+     */
+    private choices: string[];
+    private openingManually: boolean;
+    private manuallyTriggered: boolean;
+    /**
+     * How many suggestions are currently shown. Increased when the user scrolls to the end of the popup.
+     */
+    private resultLimit: number;
+    private hasMoreSuggestions: boolean;
 
     private characterRegex: string;
     private compiledCharacterRegex: RegExp;
 
+    private readonly app: App;
     private readonly snippetManager: SnippetManager;
     private readonly settings: CompletrSettings;
     private readonly disableSnippets: boolean;
 
+    private abortController: AbortController;
+
+    private readonly saveUsage = debounce(() => SuggestionUsage.saveData(this.app.vault), 5000, true);
+
     constructor(app: App, settings: CompletrSettings, snippetManager: SnippetManager) {
         super(app);
+        this.app = app;
         this.disableSnippets = (app.vault as any).config?.legacyEditor;
         this.settings = settings;
         this.snippetManager = snippetManager;
@@ -44,52 +71,277 @@ export default class SuggestionPopup extends EditorSuggest<Suggestion> {
         //Remove default key registrations
         let self = this as any;
         self.scope.keys = [];
+
+        //Scroll events don't bubble, but they can be captured from the element which contains the list
+        self.suggestEl.addEventListener("scroll", (event: Event) => {
+            const list = event.target as HTMLElement;
+            if (list.scrollTop + list.clientHeight >= list.scrollHeight - LOAD_MORE_SCROLL_THRESHOLD)
+                this.loadMoreSuggestions(list);
+        }, true);
     }
 
     getSuggestions(
         context: EditorSuggestContext
     ): Suggestion[] | Promise<Suggestion[]> {
+        this.resultLimit = this.settings.maxSuggestions;
+        return this.collectSuggestions(context);
+    }
+
+    private collectSuggestions(
+        context: EditorSuggestContext
+    ): Suggestion[] | Promise<Suggestion[]> {
+        // Any results which are still being computed for the previous query are stale now
+        this.abortController?.abort();
+        const abortController = new AbortController();
+        this.abortController = abortController;
+
+        if (this.choices)
+            return this.getChoiceSuggestions(context.query);
+
+        const suggestionContext: SuggestionContext = {
+            ...context,
+            separatorChar: this.separatorChar,
+            abortSignal: abortController.signal,
+            manuallyTriggered: this.manuallyTriggered,
+            maxResults: this.resultLimit,
+        };
+
         let suggestions: Suggestion[] = [];
+        let pending: PendingSuggestions[] = [];
 
-        for (let provider of PROVIDERS) {
-            suggestions = [...suggestions, ...provider.getSuggestions({
-                ...context,
-                separatorChar: this.separatorChar
-            }, this.settings)];
+        for (let provider of SuggestionProviderRegistry.getEnabledProviders(this.settings)) {
+            const result = provider.getSuggestions(suggestionContext, this.settings);
+            if (result instanceof Promise) {
+                pending.push({result, blocksAllOtherProviders: provider.blocksAllOtherProviders});
+                continue;
+            }
 
-            if (provider.blocksAllOtherProviders && suggestions.length > 0) {
-                suggestions.forEach((suggestion) => {
-                    if (!suggestion.overrideStart)
-                        return;
+            suggestions.push(...result);
 
-                    // Fixes popup position
-                    this.context.start = suggestion.overrideStart;
-                });
+            if (provider.blocksAllOtherProviders && result.length > 0) {
+                this.fixPopupPosition(result);
+                //The asynchronous providers which were already started are stopped, their errors are irrelevant now
+                abortController.abort();
+                pending.forEach(p => p.result.catch(() => undefined));
+                pending = [];
                 break;
             }
         }
 
-        const seen = new Set<string>();
-        suggestions = suggestions.filter((suggestion) => {
-            if (seen.has(suggestion.displayName))
-                return false;
+        if (pending.length === 0)
+            return this.finalizeSuggestions(suggestions, context.query);
+
+        return this.mergePendingSuggestions(suggestions, pending, context.query, abortController.signal);
+    }
+
+    private getChoiceSuggestions(query: string): Suggestion[] {
+        const result: { suggestion: Suggestion, score: number }[] = [];
+        for (let choice of this.choices) {
+            const score = matchScore(query, choice, {
+                ignoreCase: true,
+                matchSubstring: true,
+                fuzzy: this.settings.fuzzyMatching
+            });
+            if (score === null)
+                continue;
+
+            result.push({suggestion: new Suggestion(choice, choice, undefined, undefined, {literal: true}), score});
+        }
+
+        return result
+            .sort((a, b) => b.score - a.score)
+            .map(({suggestion}) => suggestion);
+    }
+
+    /**
+     * Adds the results of asynchronous providers to the popup as soon as they arrive. If none of the synchronous
+     * providers returned anything, a promise is returned which resolves once the first non-empty result arrives.
+     */
+    private mergePendingSuggestions(
+        suggestions: Suggestion[],
+        pending: PendingSuggestions[],
+        query: string,
+        signal: AbortSignal
+    ): Suggestion[] | Promise<Suggestion[]> {
+        let resolveInitial: (suggestions: Suggestion[]) => void = null;
+        const initialPromise = new Promise<Suggestion[]>(resolve => resolveInitial = resolve);
+        const initial = this.finalizeSuggestions(suggestions, query);
+        if (initial)
+            resolveInitial = null;
+
+        let blocked = false;
+        let remaining = pending.length;
+        const onSettled = () => {
+            remaining--;
+            if (remaining === 0 && resolveInitial)
+                resolveInitial(null);
+        };
+
+        for (let {result, blocksAllOtherProviders} of pending) {
+            result.then(asyncSuggestions => {
+                if (signal.aborted || blocked || !asyncSuggestions || asyncSuggestions.length < 1)
+                    return;
+
+                if (blocksAllOtherProviders) {
+                    blocked = true;
+                    suggestions = asyncSuggestions;
+                    this.fixPopupPosition(asyncSuggestions);
+                } else {
+                    suggestions.push(...asyncSuggestions);
+                }
+
+                const merged = this.finalizeSuggestions(suggestions, query);
+                if (!merged)
+                    return;
+
+                if (resolveInitial) {
+                    resolveInitial(merged);
+                    resolveInitial = null;
+                } else {
+                    this.showSuggestionsKeepingSelection(merged);
+                }
+            }).catch(e => {
+                if (!signal.aborted)
+                    console.error("Completr: Provider failed to load suggestions", e);
+            }).then(onSettled);
+        }
+
+        return initial ?? initialPromise;
+    }
+
+    /**
+     * Removes duplicates and blacklisted suggestions and sorts the remaining ones by their score, regardless of the
+     * provider they came from.
+     */
+    private finalizeSuggestions(suggestions: Suggestion[], query: string): Suggestion[] | null {
+        const best = new Map<string, { suggestion: Suggestion, score: number }>();
+        for (let suggestion of suggestions) {
+            if (SuggestionBlacklist.has(suggestion))
+                continue;
+
+            let score = suggestion.score ?? matchScore(query, suggestion.displayName, {
+                ignoreCase: true,
+                matchSubstring: true,
+                fuzzy: this.settings.fuzzyMatching
+            }) ?? 0;
+            if (this.settings.usageLearningEnabled)
+                score += SuggestionUsage.getBoost(suggestion, query);
+            // Suggestions which look the same but insert something else, like a snippet and a word, are both kept
+            const key = suggestion.displayName + "\n" + suggestion.replacement;
+            const existing = best.get(key);
+            if (existing && existing.score >= score)
+                continue;
+
+            best.set(key, {suggestion, score});
+        }
+
+        if (best.size === 0)
+            return null;
+
+        // The sort is stable, which keeps the order of the providers for suggestions with the same score
+        const sorted = Array.from(best.values()).sort((a, b) => b.score - a.score);
+        // Providers might have more suggestions if they returned as many as they were asked for
+        this.hasMoreSuggestions = sorted.length >= this.resultLimit;
+        return sorted
+            .slice(0, this.resultLimit)
+            .map(({suggestion}) => suggestion);
+    }
+
+    /*
+     * Shows the next page of suggestions for the current query, keeping the selected item and scroll position.
+     */
+    private loadMoreSuggestions(list?: HTMLElement) {
+        const self = this as any;
+        if (!this.hasMoreSuggestions || this.choices || !this.context)
+            return;
+
+        this.hasMoreSuggestions = false;
+        this.resultLimit += this.settings.maxSuggestions;
+
+        const shownCount = self.suggestions.values.length;
+        const selectedItem = self.suggestions.selectedItem;
+        const show = (suggestions: Suggestion[]) => {
+            if (!suggestions || suggestions.length <= shownCount)
+                return;
+
+            const scrollTop = list?.scrollTop;
+            self.showSuggestions(suggestions);
+            self.suggestions.setSelectedItem(selectedItem, null);
+            if (list)
+                list.scrollTop = scrollTop;
+        };
 
-            seen.add(suggestion.displayName);
-            return true;
+        const result = this.collectSuggestions(this.context);
+        if (result instanceof Promise)
+            result.then(show);
+        else
+            show(result);
+    }
+
+    /*
+     * Replaces the shown suggestions, but keeps the selected suggestion selected if it is still part of them.
+     */
+    private showSuggestionsKeepingSelection(suggestions: Suggestion[]) {
+        const internals = this as unknown as EditorSuggestInternals;
+        const selected = internals.suggestions.values[internals.suggestions.selectedItem];
+        internals.showSuggestions(suggestions);
+
+        const index = selected ? suggestions.indexOf(selected) : -1;
+        if (index > 0)
+            internals.suggestions.setSelectedItem(index, null);
+    }
+
+    private fixPopupPosition(suggestions: Suggestion[]) {
+        suggestions.forEach((suggestion) => {
+            if (!suggestion.overrideStart)
+                return;
+
+            this.context.start = suggestion.overrideStart;
         });
-        return suggestions.length === 0 ? null : suggestions.filter(s => !SuggestionBlacklist.has(s));
+    }
+
+    /**
+     * Opens the popup at the cursor, even if nothing has been typed yet.
+     */
+    triggerManually(editor: Editor, file: TFile) {
+        this.openingManually = true;
+        try {
+            //This is the same function that is called by obsidian when you type a character
+            (this as any).trigger(editor, file, true);
+        } finally {
+            this.openingManually = false;
+        }
     }
 
     onTrigger(cursor: EditorPosition, editor: Editor, file: TFile): EditorSuggestTriggerInfo | null {
+        this.manuallyTriggered = this.openingManually;
         if (this.justClosed) {
             this.justClosed = false;
             return null;
         }
 
+        const choices = this.snippetManager.choicesAtPos(cursor);
+        this.choices = choices?.choices;
+        if (choices) {
+            return {
+                start: choices.range.from,
+                end: choices.range.to,
+                query: editor.getRange(choices.range.from, cursor),
+            };
+        }
+
         let {
             query,
             separatorChar
         } = matchWordBackwards(editor, cursor, (char) => this.getCharacterRegex().test(char), this.settings.maxLookBackDistance);
+
+        //Scripts without spaces between words would otherwise produce a query spanning multiple words
+        if (this.settings.wordSegmentation === WordSegmentation.UNICODE) {
+            const word = lastSegmentedWord(query);
+            if (word.length < query.length)
+                separatorChar = query.charAt(query.length - word.length - 1);
+            query = word;
+        }
         this.separatorChar = separatorChar;
 
         return {
@@ -122,35 +374,107 @@ export default class SuggestionPopup extends EditorSuggest<Suggestion> {
         text.addClass("completr-suggestion-text");
         text.setText(value.displayName);
         el.appendChild(text);
+
+        // Add the description.
+        if (value.description != null) {
+            const description = el.doc.createElement("div");
+            description.addClass("completr-suggestion-description");
+            description.setText(value.description);
+            el.appendChild(description);
+        }
     }
 
     selectSuggestion(value: Suggestion, evt: MouseEvent | KeyboardEvent): void {
-        const replacement = value.replacement;
-        const start = typeof value !== "string" && value.overrideStart ? value.overrideStart : this.context.start;
+        if (this.settings.usageLearningEnabled) {
+            SuggestionUsage.record(value, this.context.query);
+            this.saveUsage();
+        }
 
+        const editor = this.context.editor;
+        let start = typeof value !== "string" && value.overrideStart ? value.overrideStart : this.context.start;
         const endPos = value.overrideEnd ?? this.context.end;
-        this.context.editor.replaceRange(replacement, start, {
-            ...endPos,
-            ch: Math.min(endPos.ch, this.context.editor.getLine(endPos.line).length)
-        });
+        let end = {...endPos, ch: Math.min(endPos.ch, editor.getLine(endPos.line).length)};
+        const file = this.context.file;
+
+        this.close();
+        this.justClosed = true;
+
+        if (value.literal) {
+            this.insertReplacement(editor, {text: value.replacement, tabstops: []}, start, end);
+            return;
+        }
+
+        const snippet = Snippet.parse(value.replacement);
+        const variables = snippet.variables;
+        if (variables.length < 1) {
+            this.insertReplacement(editor, snippet.render(), start, end);
+            return;
+        }
+
+        //A snippet using the selection replaces it
+        if (variables.some(v => v.name === "SELECTION") && editor.somethingSelected()) {
+            start = minPos(start, editor.getCursor("from"));
+            end = maxPos(end, editor.getCursor("to"));
+        }
+
+        const variableContext: SnippetVariableContext = {
+            app: this.app,
+            editor,
+            file,
+            selection: editor.getSelection(),
+            clipboard: "",
+        };
+        const insertResolved = () => this.insertReplacement(
+            editor,
+            snippet.resolveVariables(variable => resolveSnippetVariable(variable, variableContext)).render(),
+            start,
+            end
+        );
+
+        //Reading the clipboard is asynchronous, so it is only done if needed
+        if (!variables.some(v => v.name === "CLIPBOARD")) {
+            insertResolved();
+            return;
+        }
+
+        navigator.clipboard.readText()
+            .then(text => variableContext.clipboard = text)
+            .catch(e => console.error("Completr: Unable to read the clipboard", e))
+            .then(insertResolved);
+    }
+
+    private insertReplacement(editor: Editor, rendered: RenderedSnippet, start: EditorPosition, end: EditorPosition) {
+        editor.replaceRange(rendered.text, start, end);
 
         //Check if suggestion is a snippet
-        if (replacement.contains("#") || replacement.contains("~")) {
+        if (rendered.tabstops.length > 0) {
             if (!this.disableSnippets) {
-                this.snippetManager.handleSnippet(replacement, start, this.context.editor);
+                this.snippetManager.handleSnippet(rendered, start, editor);
             } else {
                 console.log("Completr: Please enable Live Preview mode to use snippets");
             }
         } else {
-            this.context.editor.setCursor({...start, ch: start.ch + replacement.length});
+            editor.setCursor(posFromIndex(
+                editorToCodeMirrorState(editor).doc,
+                indexFromPos(editorToCodeMirrorState(editor).doc, start) + rendered.text.length
+            ));
         }
+    }
 
-        this.close();
-        this.justClosed = true;
+    /**
+     * Opens the popup with the choices of the snippet placeholder at the cursor.
+     */
+    openChoices(editor: Editor) {
+        this.justClosed = false;
+        (this as any).trigger(editor, this.app.workspace.getActiveFile(), true);
     }
 
     selectNextItem(dir: SelectionDirection) {
         const self = this as any;
+        //Load more suggestions instead of wrapping around to the first one
+        if (dir === SelectionDirection.NEXT && self.suggestions.selectedItem === self.suggestions.values.length - 1)
+            this.loadMoreSuggestions();
+
         // HACK: The second parameter has to be an instance of KeyboardEvent to force scrolling the selected item into
         // view
         self.suggestions.setSelectedItem(self.suggestions.selectedItem + dir, new KeyboardEvent("keydown"));
@@ -166,6 +490,11 @@ export default class SuggestionPopup extends EditorSuggest<Suggestion> {
         self.suggestions.useSelectedItem();
     }
 
+    close() {
+        this.abortController?.abort();
+        super.close();
+    }
+
     isVisible(): boolean {
         return (this as any).isOpen;
     }
@@ -175,14 +504,42 @@ export default class SuggestionPopup extends EditorSuggest<Suggestion> {
     }
 
     private getCharacterRegex(): RegExp {
-        if (this.characterRegex !== this.settings.characterRegex)
-            this.compiledCharacterRegex = new RegExp("[" + this.settings.characterRegex + "]", "u");
+        const characters = getWordCharacters(this.settings);
+        if (this.characterRegex !== characters) {
+            this.characterRegex = characters;
+            this.compiledCharacterRegex = new RegExp("[" + characters + "]", "u");
+        }
 
         return this.compiledCharacterRegex;
     }
 
 }
 
+function minPos(a: EditorPosition, b: EditorPosition): EditorPosition {
+    return a.line < b.line || (a.line === b.line && a.ch <= b.ch) ? a : b;
+}
+
+function maxPos(a: EditorPosition, b: EditorPosition): EditorPosition {
+    return minPos(a, b) === a ? b : a;
+}
+
+/**
+ * The private members of EditorSuggest which are needed to update the popup while it is open.
+ */
+interface EditorSuggestInternals {
+    suggestions: {
+        values: Suggestion[],
+        selectedItem: number,
+        setSelectedItem(index: number, event: KeyboardEvent | null): void,
+    },
+    showSuggestions(suggestions: Suggestion[]): void,
+}
+
+interface PendingSuggestions {
+    result: Promise<Suggestion[]>,
+    blocksAllOtherProviders: boolean,
+}
+
 export enum SelectionDirection {
     NEXT = 1,
     PREVIOUS = -1
@@ -6,6 +6,7 @@ import {
 import {CompletrSettings, intoCompletrPath} from "../settings";
 import {Notice, Vault} from "obsidian";
 import {SuggestionBlacklist} from "./blacklist";
+import {matchScore} from "../fuzzy_matcher";
 
 
 const CALLOUT_SUGGESTIONS_FILE = "callout_suggestions.json";
@@ -57,11 +58,20 @@ class CalloutSuggestionProvider implements SuggestionProvider {
         const replaceTitle = callout.title.rawText;
         const replaceFoldable = untrimEnd(callout.foldable.rawText);
 
-        const search = callout.type.text.toLowerCase();
+        const search = callout.type.text;
+        const matchOptions = {
+            ignoreCase: true,
+            fuzzy: settings.fuzzyMatching,
+        };
         return this.loadedSuggestions
-            .filter(s => s.displayName.toLowerCase().startsWith(search) || s.replacement.toLowerCase().startsWith(search))
             .map(suggestion => {
+                const displayNameScore = matchScore(search, suggestion.displayName, matchOptions);
+                const replacementScore = matchScore(search, suggestion.replacement, matchOptions);
+                if (displayNameScore === null && replacementScore === null)
+                    return null;
+
                 return suggestion.derive({
+                    score: Math.max(displayNameScore ?? -Infinity, replacementScore ?? -Infinity),
                     replacement: `[!${suggestion.replacement}]${replaceFoldable}${replaceTitle}`,
                     overrideEnd: {
                         line: context.end.line,
@@ -72,7 +82,8 @@ class CalloutSuggestionProvider implements SuggestionProvider {
                         ch: quote.chOffset,
                     }
                 });
-            });
+            })
+            .filter(suggestion => suggestion !== null);
     }
 
     async loadSuggestions(vault: Vault) {
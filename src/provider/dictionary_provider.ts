@@ -1,75 +1,169 @@
-import {CompletrSettings, WordInsertionMode} from "../settings";
+import {CompletrSettings, WordInsertionMode, WordRankingStrategy} from "../settings";
 import {Suggestion, SuggestionContext, SuggestionProvider} from "./provider";
 import {maybeLowerCase} from "../editor_helpers";
+import {matchScore, TIER_RANGE} from "../fuzzy_matcher";
+import {normalizeWord, WordIndex} from "./word_index";
+
+const FREQUENCY_WEIGHT = 40;
+/**
+ * Keeps the bonus of very frequent words below the range of a match tier, so they can't skip over whole tiers.
+ */
+const MAX_FREQUENCY_BONUS = TIER_RANGE - 1;
+/**
+ * How many characters fuzzy matches have to share with the start of the query.
+ */
+const FUZZY_PREFIX_LENGTH = 2;
+/**
+ * How many words of each index are compared to the query in a fuzzy way.
+ */
+const MAX_FUZZY_CANDIDATES = 5000;
+
+interface ScoredWord {
+    word: string,
+    /**
+     * The index the word was found in.
+     */
+    index: WordIndex,
+    score: number,
+}
 
 export abstract class DictionaryProvider implements SuggestionProvider {
 
-    abstract readonly wordMap: Map<string, Iterable<string>>;
+    /**
+     * Returns the indexes of the words which should be suggested.
+     */
+    protected abstract getWordIndexes(context: SuggestionContext, settings: CompletrSettings): WordIndex[];
 
     abstract isEnabled(settings: CompletrSettings): boolean;
 
+    /**
+     * Returns how often the given word of the given index occurs, or 0 if that is unknown.
+     */
+    protected getFrequency(word: string, index: WordIndex): number {
+        return 0;
+    }
+
+    /**
+     * Returns the description which is shown next to the word of the given index, if it has one.
+     */
+    protected getDescription(word: string, index: WordIndex): string | undefined {
+        return undefined;
+    }
+
+    /**
+     * Allows to hide some of the indexed words, depending on the query and settings.
+     */
+    protected isSuggested(word: string, query: string, settings: CompletrSettings): boolean {
+        return true;
+    }
+
     getSuggestions(context: SuggestionContext, settings: CompletrSettings): Suggestion[] {
         if (!this.isEnabled(settings) || !context.query || context.query.length < settings.minWordTriggerLength)
             return [];
 
         const ignoreCase = settings.wordInsertionMode != WordInsertionMode.MATCH_CASE_REPLACE;
-
-        let query = maybeLowerCase(context.query, ignoreCase);
-        const ignoreDiacritics = settings.ignoreDiacriticsWhenFiltering;
-        if (ignoreDiacritics)
-            query = removeDiacritics(query);
-
-        const firstChar = query.charAt(0);
-
-        //This is an array of arrays to avoid unnecessarily creating a new huge array containing all elements of both arrays.
-        const list = ignoreCase ?
-            [(this.wordMap.get(firstChar) ?? []), (this.wordMap.get(firstChar.toUpperCase()) ?? [])] //Get both lists if we're ignoring case
-            :
-            [this.wordMap.get(firstChar) ?? []];
-
-        if (ignoreDiacritics) {
-            // This additionally adds all words that start with a diacritic, which the two maps above might not cover.
-            for (let [key, value] of this.wordMap.entries()) {
-                let keyFirstChar = maybeLowerCase(key.charAt(0), ignoreCase);
-
-                if (removeDiacritics(keyFirstChar) === firstChar)
-                    list.push(value);
+        const matchOptions = {
+            ignoreCase,
+            ignoreDiacritics: settings.ignoreDiacriticsWhenFiltering,
+            fuzzy: settings.fuzzyMatching,
+        };
+        const isAppendMode = settings.wordInsertionMode === WordInsertionMode.IGNORE_CASE_APPEND;
+        const rankByFrequency = settings.wordRankingStrategy === WordRankingStrategy.FREQUENCY;
+
+        //The index ignores case and diacritics, the exact rules are applied by matchScore
+        const normalizedQuery = normalizeWord(context.query);
+        const indexes = this.getWordIndexes(context, settings);
+
+        //Only the best matches are kept, suggestions are created for them once all words have been scored
+        const best: ScoredWord[] = [];
+        const addWord = (word: string, index: WordIndex) => {
+            if (!this.isSuggested(word, context.query, settings))
+                return;
+
+            let score = matchScore(context.query, word, matchOptions);
+            if (score === null)
+                return;
+
+            //Frequently used words are ranked higher, words with the same score are then ranked by length
+            if (rankByFrequency)
+                score += Math.min(MAX_FREQUENCY_BONUS, Math.round(Math.log2(1 + this.getFrequency(word, index)) * FREQUENCY_WEIGHT));
+
+            pushBounded(best, {word, index, score}, context.maxResults);
+        };
+
+        for (let index of indexes)
+            index.forEachWithPrefix(normalizedQuery, word => addWord(word, index));
+
+        //Fuzzy matches are only searched if there aren't enough prefix matches. They have to share the first characters
+        //with the query and only a limited number of them is compared, as comparing them is a lot more expensive.
+        const fuzzyPrefix = normalizedQuery.substring(0, FUZZY_PREFIX_LENGTH);
+        if (settings.fuzzyMatching && normalizedQuery.length > fuzzyPrefix.length && best.length < context.maxResults) {
+            for (let index of indexes) {
+                index.forEachWithPrefix(fuzzyPrefix, (word, key) => {
+                    if (!key.startsWith(normalizedQuery))
+                        addWord(word, index);
+                }, MAX_FUZZY_CANDIDATES);
             }
         }
 
-        if (!list || list.length < 1)
-            return [];
-
-        //TODO: Rank those who match case higher
-        const result: Suggestion[] = [];
-        for (let el of list) {
-            filterMapIntoArray(result, el, s => {
-                    let match = maybeLowerCase(s, ignoreCase);
-                    if (ignoreDiacritics)
-                        match = removeDiacritics(match);
-                    return match.startsWith(query);
-                },
-                settings.wordInsertionMode === WordInsertionMode.IGNORE_CASE_APPEND ?
-                    //In append mode we combine the query with the suggestions
-                    (s => Suggestion.fromString(context.query + s.substring(query.length, s.length))) :
-                    (s => Suggestion.fromString(s))
-            );
-        }
-
-        return result.sort((a, b) => a.displayName.length - b.displayName.length);
+        return best
+            .sort((a, b) => compareScoredWords(b, a))
+            .map(({word, index, score}) => {
+                //In append mode we combine the query with the suggestions, which only works for prefix matches
+                const displayName = isAppendMode && maybeLowerCase(word, true).startsWith(maybeLowerCase(context.query, true)) ?
+                    context.query + word.substring(context.query.length, word.length) :
+                    word;
+                return new Suggestion(displayName, displayName, undefined, undefined, {
+                    description: this.getDescription(word, index),
+                    score,
+                });
+            });
     }
 }
 
-const DIACRITICS_REGEX = /[\u0300-\u036f]/g
-
-function removeDiacritics(str: string): string {
-    return str.normalize("NFD").replace(DIACRITICS_REGEX, "");
+/*
+ * Better words have a higher score or are shorter.
+ */
+function compareScoredWords(a: ScoredWord, b: ScoredWord): number {
+    return (a.score - b.score) || (b.word.length - a.word.length);
 }
 
-function filterMapIntoArray<T, U>(array: Array<T>, iterable: Iterable<U>, predicate: (val: U) => boolean, map: (val: U) => T) {
-    for (let val of iterable) {
-        if (!predicate(val))
-            continue;
-        array.push(map(val));
+/*
+ * Adds the word to the heap, which only keeps the given number of best words. The worst word is at the top of the
+ * heap, which makes it cheap to replace.
+ */
+function pushBounded(heap: ScoredWord[], word: ScoredWord, limit: number) {
+    if (heap.length < limit) {
+        heap.push(word);
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (compareScoredWords(heap[i], heap[parent]) >= 0)
+                break;
+
+            [heap[i], heap[parent]] = [heap[parent], heap[i]];
+            i = parent;
+        }
+        return;
+    }
+
+    if (limit < 1 || compareScoredWords(word, heap[0]) <= 0)
+        return;
+
+    heap[0] = word;
+    let i = 0;
+    while (2 * i + 1 < heap.length) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (compareScoredWords(heap[left], heap[smallest]) < 0)
+            smallest = left;
+        if (right < heap.length && compareScoredWords(heap[right], heap[smallest]) < 0)
+            smallest = right;
+        if (smallest === i)
+            break;
+
+        [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+        i = smallest;
     }
 }
@@ -1,7 +1,8 @@
 import {Suggestion, SuggestionContext, SuggestionProvider} from "./provider";
-import {CompletrSettings} from "../settings";
+import {CompletrSettings, getWordCharacters} from "../settings";
 import {CachedMetadata, Editor, getAllTags, MetadataCache, TFile} from "obsidian";
-import {isInFrontMatterBlock, matchWordBackwards, maybeLowerCase} from "../editor_helpers";
+import {isInFrontMatterBlock, matchTagBackwards, maybeLowerCase} from "../editor_helpers";
+import {matchScore} from "../fuzzy_matcher";
 
 const BASE_SUGGESTION = new Suggestion(
     "front-matter",
@@ -132,7 +133,9 @@ class FrontMatterSuggestionProvider implements SuggestionProvider {
                 const displayName = snippet.getDisplayNameLowerCase(ignoreCase);
                 const key = displayName.substring(0, displayName.indexOf(":"));
                 return key.startsWith(query);
-            });
+            }).map(snippet => snippet.derive({
+                score: matchScore(query, snippet.displayName.substring(0, snippet.displayName.indexOf(":")), {ignoreCase})
+            }));
         }
 
         //YAML key specific completions
@@ -152,17 +155,19 @@ class FrontMatterSuggestionProvider implements SuggestionProvider {
             return [];
 
         //We need a custom query to force include `/`, `-`, `_` for tags.
-        const customQuery = maybeLowerCase(matchWordBackwards(
+        const customQuery = maybeLowerCase(matchTagBackwards(
             context.editor,
             context.end,
-            (char) => new RegExp("[" + settings.characterRegex + "/\\-_]", "u").test(char),
+            getWordCharacters(settings),
             settings.maxLookBackDistance
         ).query, ignoreCase);
 
         return [...key.completions].filter(tag => maybeLowerCase(tag, ignoreCase).startsWith(customQuery)).map(tag => (new Suggestion(
             tag,
             tag + (settings.frontMatterTagAppendSuffix && key.isList ? (type === "inline" ? ", " : "\n- ") : ""),
-            {...context.end, ch: context.end.ch - customQuery.length}
+            {...context.end, ch: context.end.ch - customQuery.length},
+            undefined,
+            {score: matchScore(customQuery, tag, {ignoreCase})}
         ))).sort((a, b) => a.displayName.length - b.displayName.length);
     }
 
@@ -4,9 +4,10 @@ import {
     SuggestionProvider
 } from "./provider";
 import {CompletrSettings, intoCompletrPath} from "../settings";
-import {BlockType, getLatexBlockType, maybeLowerCase} from "../editor_helpers";
+import {BlockType, getLatexBlockType} from "../editor_helpers";
 import {Notice, Vault} from "obsidian";
 import {SuggestionBlacklist} from "./blacklist";
+import {matchScore} from "../fuzzy_matcher";
 
 function substringUntil(str: string, delimiter: string): string {
     let index = str.indexOf(delimiter);
@@ -34,29 +35,35 @@ class LatexSuggestionProvider implements SuggestionProvider {
         if (!latexBlockType)
             return [];
 
-        const query = maybeLowerCase(context.query, settings.latexIgnoreCase);
         const isSeparatorBackslash = context.separatorChar === "\\";
 
-        return this.loadedCommands.filter((s) => s.getDisplayNameLowerCase(settings.latexIgnoreCase).contains(query))
-            .map((s) => {
-                let replacement = s.replacement;
-                replacement = isSeparatorBackslash ? replacement.substring(1) : replacement;
-                replacement = isSingleBlock ? replacement.replace(/\n/g, "") : replacement;
+        const matchOptions = {
+            ignoreCase: settings.latexIgnoreCase,
+            matchSubstring: true,
+            fuzzy: settings.fuzzyMatching,
+        };
 
-                return ({
-                    displayName: s.displayName,
-                    replacement: replacement,
-                    priority: s.getDisplayNameLowerCase(settings.latexIgnoreCase).indexOf(query),
-                });
+        return this.loadedCommands
+            .map((s) => {
+                //The leading backslash is optional, which makes "frac" a prefix match for "\frac"
+                const name = s.displayName.startsWith("\\") ? s.displayName.substring(1) : s.displayName;
+                return {suggestion: s, score: matchScore(context.query, name, matchOptions)};
             })
+            .filter(({score}) => score !== null)
             .sort((a, b) => {
                 //This makes sure that matches like "\vee" are ranked before "\curlyvee" if the query is "\vee"
-                let val = a.priority - b.priority;
+                let val = b.score - a.score;
                 if (val == 0)
-                    val = substringUntil(a.displayName, "{").length - substringUntil(b.displayName, "{").length;
+                    val = substringUntil(a.suggestion.displayName, "{").length - substringUntil(b.suggestion.displayName, "{").length;
                 return val;
             })
-            .map(obj => new Suggestion(obj.displayName, obj.replacement));
+            .map(({suggestion, score}) => {
+                let replacement = suggestion.replacement;
+                replacement = isSeparatorBackslash ? replacement.substring(1) : replacement;
+                replacement = isSingleBlock ? replacement.replace(/\n/g, "") : replacement;
+
+                return new Suggestion(suggestion.displayName, replacement, undefined, undefined, {score});
+            });
     }
 
     async loadCommands(vault: Vault) {
@@ -0,0 +1,227 @@
+import {Suggestion, SuggestionContext, SuggestionProvider} from "./provider";
+import {CompletrSettings} from "../settings";
+import {App, Editor, EditorPosition, parseFrontMatterAliases, TFile} from "obsidian";
+import {matchScore, MatchOptions} from "../fuzzy_matcher";
+import {isInCodeBlock} from "../editor_helpers";
+
+const MARKDOWN_LINK_REGEX = /!?\[[^\]]*]\(([^()\s]*)$/; // [text](target
+const MARKDOWN_LINK_CLOSING_REGEX = /^[^()\s]*\)/;        // rest of the target)
+const INVALID_HEADING_CHARS_REGEX = /[#|^:[\]]|%%/g;
+
+interface LinkContext {
+    type: "wikilink" | "markdown",
+    /**
+     * The start of the link target, directly after the `[[` or `](`.
+     */
+    start: EditorPosition,
+    /**
+     * The end of the range which is replaced. Includes the closing brackets if they already exist.
+     */
+    end: EditorPosition,
+    /**
+     * Whether the closing brackets have to be added when inserting a suggestion.
+     */
+    needsClosing: boolean,
+    query: string,
+}
+
+interface FileMatch {
+    file: TFile,
+    /**
+     * The alias which matched the query, if the file itself didn't.
+     */
+    alias?: string,
+    score: number,
+}
+
+/*
+ * Finds the link which is being typed in front of the cursor.
+ */
+function findLinkContext(editor: Editor, cursor: EditorPosition): LinkContext | null {
+    const line = editor.getLine(cursor.line);
+    const before = line.substring(0, cursor.ch);
+    const after = line.substring(cursor.ch);
+
+    const wikilinkStart = before.lastIndexOf("[[");
+    if (wikilinkStart !== -1 && !before.substring(wikilinkStart).contains("]]")) {
+        const closingIndex = after.indexOf("]]");
+        const nextLinkIndex = after.indexOf("[[");
+        const hasClosing = closingIndex !== -1 && (nextLinkIndex === -1 || closingIndex < nextLinkIndex);
+        // Keep existing aliases like [[target|alias]]
+        const aliasIndex = hasClosing ? after.substring(0, closingIndex).indexOf("|") : -1;
+
+        let endCh = cursor.ch;
+        if (aliasIndex !== -1)
+            endCh += aliasIndex;
+        else if (hasClosing)
+            endCh += closingIndex + 2;
+
+        return {
+            type: "wikilink",
+            start: {line: cursor.line, ch: wikilinkStart + 2},
+            end: {line: cursor.line, ch: endCh},
+            needsClosing: aliasIndex === -1,
+            query: before.substring(wikilinkStart + 2),
+        };
+    }
+
+    const match = MARKDOWN_LINK_REGEX.exec(before);
+    if (match) {
+        const closing = MARKDOWN_LINK_CLOSING_REGEX.exec(after);
+        return {
+            type: "markdown",
+            start: {line: cursor.line, ch: cursor.ch - match[1].length},
+            end: {line: cursor.line, ch: closing ? cursor.ch + closing[0].length : cursor.ch},
+            needsClosing: true,
+            query: match[1],
+        };
+    }
+
+    return null;
+}
+
+class LinkSuggestionProvider implements SuggestionProvider {
+    blocksAllOtherProviders: boolean = true;
+
+    private app: App;
+
+    initialize(app: App) {
+        this.app = app;
+    }
+
+    getSuggestions(context: SuggestionContext, settings: CompletrSettings): Suggestion[] {
+        if (!settings.linkProviderEnabled || !this.app)
+            return [];
+
+        const linkContext = findLinkContext(context.editor, context.end);
+        if (!linkContext || linkContext.query.contains("|"))
+            return [];
+        if (isInCodeBlock(context.editor, context.end))
+            return [];
+
+        const sourcePath = context.file?.path ?? "";
+        const matchOptions: MatchOptions = {
+            ignoreCase: true,
+            matchSubstring: true,
+            fuzzy: settings.fuzzyMatching,
+        };
+
+        const query = linkContext.type === "markdown" ? safeDecodeURI(linkContext.query) : linkContext.query;
+        const hashIndex = query.indexOf("#");
+        if (hashIndex === -1)
+            return this.getFileSuggestions(linkContext, query, sourcePath, matchOptions, context.maxResults);
+
+        const notePath = query.substring(0, hashIndex);
+        const target = notePath ? this.app.metadataCache.getFirstLinkpathDest(notePath, sourcePath) : context.file;
+        if (!target)
+            return [];
+
+        // Keep the note part exactly as it was typed
+        const prefix = linkContext.query.substring(0, linkContext.query.indexOf("#") + 1);
+        const subQuery = query.substring(hashIndex + 1);
+        if (subQuery.startsWith("^"))
+            return this.getBlockSuggestions(linkContext, target, prefix, subQuery.substring(1), matchOptions);
+
+        return this.getHeadingSuggestions(linkContext, target, prefix, subQuery, matchOptions);
+    }
+
+    private getFileSuggestions(linkContext: LinkContext, query: string, sourcePath: string, matchOptions: MatchOptions, maxResults: number): Suggestion[] {
+        const matches: FileMatch[] = [];
+        const metadataCache = this.app.metadataCache;
+
+        for (let file of this.app.vault.getFiles()) {
+            const isNote = file.extension === "md";
+            const score = matchScore(query, isNote ? file.basename : file.name, matchOptions) ??
+                matchScore(query, file.path, matchOptions);
+            if (score !== null)
+                matches.push({file, score});
+
+            if (!isNote)
+                continue;
+
+            const aliases = parseFrontMatterAliases(metadataCache.getFileCache(file)?.frontmatter) ?? [];
+            for (let alias of aliases) {
+                const aliasScore = matchScore(query, alias, matchOptions);
+                if (aliasScore !== null)
+                    matches.push({file, alias, score: aliasScore});
+            }
+        }
+
+        //The link text is only resolved for the best matches, which is too slow to do for every file of the vault
+        return matches
+            .sort((a, b) => b.score - a.score)
+            .slice(0, maxResults)
+            .map(match => this.createFileSuggestion(linkContext, match, sourcePath));
+    }
+
+    private createFileSuggestion(linkContext: LinkContext, {file, alias, score}: FileMatch, sourcePath: string): Suggestion {
+        const linkText = this.app.metadataCache.fileToLinktext(file, sourcePath, linkContext.type === "wikilink");
+        if (alias === undefined)
+            return this.createSuggestion(linkContext, linkText, linkText, score, file.extension === "md" ? "lucide-file-text" : "lucide-file");
+
+        const replacement = linkContext.type === "wikilink" && linkContext.needsClosing ?
+            linkText + "|" + alias :
+            linkText;
+        return this.createSuggestion(linkContext, alias + " → " + linkText, replacement, score, "lucide-forward");
+    }
+
+    private getHeadingSuggestions(linkContext: LinkContext, target: TFile, prefix: string, query: string, matchOptions: MatchOptions): Suggestion[] {
+        const headings = this.app.metadataCache.getFileCache(target)?.headings ?? [];
+
+        const result: Suggestion[] = [];
+        for (let {heading} of headings) {
+            const score = matchScore(query, heading, matchOptions);
+            if (score === null)
+                continue;
+
+            const linkHeading = linkContext.type === "wikilink" ? heading.replace(INVALID_HEADING_CHARS_REGEX, " ") : heading;
+            result.push(this.createSuggestion(linkContext, heading, prefix + linkHeading, score, "lucide-heading"));
+        }
+
+        return result;
+    }
+
+    private getBlockSuggestions(linkContext: LinkContext, target: TFile, prefix: string, query: string, matchOptions: MatchOptions): Suggestion[] {
+        const blocks = this.app.metadataCache.getFileCache(target)?.blocks ?? {};
+
+        const result: Suggestion[] = [];
+        for (let id of Object.keys(blocks)) {
+            const score = matchScore(query, id, matchOptions);
+            if (score === null)
+                continue;
+
+            result.push(this.createSuggestion(linkContext, "^" + id, prefix + "^" + id, score, "lucide-box"));
+        }
+
+        return result;
+    }
+
+    private createSuggestion(linkContext: LinkContext, displayName: string, target: string, score: number, icon: string): Suggestion {
+        let replacement = linkContext.type === "markdown" ? encodeLinkTarget(target) : target;
+        if (linkContext.needsClosing)
+            replacement += linkContext.type === "wikilink" ? "]]" : ")";
+
+        return new Suggestion(displayName, replacement, linkContext.start, linkContext.end, {
+            icon,
+            score,
+            literal: true,
+        });
+    }
+}
+
+export const Link = new LinkSuggestionProvider();
+
+/*
+ * Markdown links can't contain spaces, but the rest of the target is kept readable.
+ */
+function encodeLinkTarget(target: string): string {
+    return target.replace(/ /g, "%20");
+}
+
+function safeDecodeURI(str: string): string {
+    try {
+        return decodeURI(str);
+    } catch (e) {
+        return str;
+    }
+}
@@ -9,10 +9,26 @@ export class Suggestion {
     overrideEnd?: EditorPosition;
     icon?: string;
     color?: string;
+    /**
+     * Additional information which is shown next to the display name.
+     */
+    description?: string;
+    /**
+     * How well this suggestion matches the query. The popup sorts all suggestions by this score, suggestions without
+     * a score are scored by the popup itself.
+     */
+    score?: number;
+    /**
+     * Whether the replacement is inserted as is, without treating `#` and `~` as snippet placeholders.
+     */
+    literal?: boolean;
 
     constructor(displayName: string, replacement: string, overrideStart?: EditorPosition, overrideEnd?: EditorPosition, opts?: {
         icon?: string,
         color?: string,
+        description?: string,
+        score?: number,
+        literal?: boolean,
     }) {
         this.displayName = displayName;
         this.replacement = replacement;
@@ -20,6 +36,9 @@ export class Suggestion {
         this.overrideEnd = overrideEnd;
         this.icon = opts?.icon;
         this.color = opts?.color;
+        this.description = opts?.description;
+        this.score = opts?.score;
+        this.literal = opts?.literal;
     }
 
     static fromString(suggestion: string, overrideStart?: EditorPosition): Suggestion {
@@ -39,6 +58,9 @@ export class Suggestion {
             {
                 icon: options.icon ?? this.icon,
                 color: options.color ?? this.color,
+                description: options.description ?? this.description,
+                score: options.score ?? this.score,
+                literal: options.literal ?? this.literal,
             }
         );
 
@@ -48,10 +70,28 @@ export class Suggestion {
 
 export interface SuggestionContext extends EditorSuggestContext {
     separatorChar: string;
+    /**
+     * Aborted as soon as the query changes or the popup closes. Asynchronous providers can use this to cancel their
+     * work, any results returned afterwards are discarded.
+     */
+    abortSignal: AbortSignal;
+    /**
+     * Whether the popup was opened using the command instead of by typing.
+     */
+    manuallyTriggered: boolean;
+    /**
+     * The number of suggestions the popup is going to show. Providers only need to return their best suggestions up to
+     * this number, more suggestions are requested once the user scrolls to the end of the popup.
+     */
+    maxResults: number;
 }
 
 export interface SuggestionProvider {
     blocksAllOtherProviders?: boolean,
 
-    getSuggestions(context: SuggestionContext, settings: CompletrSettings): Suggestion[],
+    /**
+     * Returns the suggestions for the given context. Providers which need to read files or query other services can
+     * return a promise, the results are added to the popup once they arrive.
+     */
+    getSuggestions(context: SuggestionContext, settings: CompletrSettings): Suggestion[] | Promise<Suggestion[]>,
 }
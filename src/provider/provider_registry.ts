@@ -0,0 +1,84 @@
+import {SuggestionProvider} from "./provider";
+import {CompletrSettings} from "../settings";
+
+export interface ProviderRegistrationOptions {
+    /**
+     * A unique id, used to remember whether the provider is enabled.
+     */
+    id: string,
+    /**
+     * The name shown in the settings tab. Defaults to the id.
+     */
+    name?: string,
+    /**
+     * Providers with a higher priority are queried first. Defaults to 0. All built-in providers have a priority
+     * between 100 and 500.
+     */
+    priority?: number,
+}
+
+export interface ProviderRegistration {
+    readonly id: string,
+    readonly name: string,
+    readonly priority: number,
+    readonly provider: SuggestionProvider,
+    readonly builtIn: boolean,
+}
+
+export const SuggestionProviderRegistry = new class {
+    private registrations: ProviderRegistration[] = [];
+
+    register(provider: SuggestionProvider, options: ProviderRegistrationOptions, builtIn: boolean = false): ProviderRegistration {
+        if (!options.id)
+            throw new Error("Completr: A provider id is required");
+        if (this.get(options.id))
+            throw new Error("Completr: A provider with the id " + options.id + " is already registered");
+
+        const registration: ProviderRegistration = {
+            id: options.id,
+            name: options.name ?? options.id,
+            priority: options.priority ?? 0,
+            provider,
+            builtIn,
+        };
+
+        this.registrations.push(registration);
+        // Stable sort, providers with the same priority keep their registration order
+        this.registrations.sort((a, b) => b.priority - a.priority);
+        return registration;
+    }
+
+    unregister(id: string): boolean {
+        const index = this.registrations.findIndex(r => r.id === id);
+        if (index === -1)
+            return false;
+
+        this.registrations.splice(index, 1);
+        return true;
+    }
+
+    get(id: string): ProviderRegistration | undefined {
+        return this.registrations.find(r => r.id === id);
+    }
+
+    /**
+     * Returns all registrations, ordered by their priority.
+     */
+    getRegistrations(): readonly ProviderRegistration[] {
+        return this.registrations;
+    }
+
+    /**
+     * Returns the providers which should be queried for suggestions, ordered by their priority. Built-in providers
+     * check their own enabled setting.
+     */
+    getEnabledProviders(settings: CompletrSettings): SuggestionProvider[] {
+        return this.registrations
+            .filter(r => r.builtIn || !settings.disabledProviders.contains(r.id))
+            .map(r => r.provider);
+    }
+
+    clear() {
+        this.registrations = [];
+    }
+};
@@ -1,80 +1,565 @@
-import {TFile, Vault} from "obsidian";
-import {CompletrSettings, intoCompletrPath} from "../settings";
+import {App, CachedMetadata, EditorPosition, TFile, Vault} from "obsidian";
+import {
+    CompletrSettings,
+    getWordCharacters,
+    intoCompletrPath,
+    NextWordPrediction,
+    WordInsertionMode,
+    WordSegmentation
+} from "../settings";
 import {DictionaryProvider} from "./dictionary_provider";
+import {BlockWordIndex, WordIndex} from "./word_index";
+import {Suggestion, SuggestionContext} from "./provider";
 import {SuggestionBlacklist} from "./blacklist";
+import {ScanWorker, TokenizedText, tokenizeText, TokenizerOptions} from "../scan_worker";
+import {extractScannedText} from "../scan_filter";
+import {maybeLowerCase} from "../editor_helpers";
+import {removeDiacritics} from "../fuzzy_matcher";
 
-const SCANNED_WORDS_PATH = "scanned_words.txt";
+const SCANNED_WORDS_PATH = "scanned_words.json";
+const LEGACY_SCANNED_WORDS_PATH = "scanned_words.txt";
 const NEW_LINE_REGEX = /\r?\n/;
+const SCAN_BATCH_SIZE = 20;
+const MAX_PHRASE_LENGTH = 5;
+/**
+ * Next words are predicted from the two previous words, which needs phrases of up to three words.
+ */
+const PREDICTION_PHRASE_LENGTH = 3;
+/**
+ * Phrases which occur less often in the whole vault are not saved, unless the phrases are suggested already.
+ */
+const MIN_SAVED_PHRASE_COUNT = 2;
+const MAX_PREDICTIONS = 10;
+/**
+ * How much more a continuation of the two previous words counts compared to a continuation of only the previous word.
+ */
+const TRIGRAM_WEIGHT = 3;
+const PREDICTION_SCORE_WEIGHT = 100;
+/**
+ * Words imported from the legacy file don't belong to any file. They are kept until the whole vault is scanned again.
+ */
+const LEGACY_FILE_PATH = "";
+
+export interface ScanOptions {
+    /**
+     * Called after each batch of files with the number of files that have been scanned so far.
+     */
+    onProgress?: (scanned: number, total: number) => void,
+    /**
+     * Stops the scan after the current batch of files. The words of the files which have been scanned are kept.
+     */
+    abortSignal?: AbortSignal,
+}
+
+interface ScannedWordsData {
+    /**
+     * Maps the path of each scanned file to the words it contains and how often they occur.
+     */
+    files: Record<string, Record<string, number>>,
+    /**
+     * Maps the path of each scanned file to the phrases it contains and how often they occur. Most phrases only occur
+     * once in the whole vault, those are left out unless they are suggested already.
+     */
+    phrases?: Record<string, Record<string, number>>,
+    /**
+     * Maps the path of each scanned file to the phrases of two and three words which are used to predict next words.
+     * Phrases which only occur once in the whole vault are left out.
+     */
+    nextWordPhrases?: Record<string, Record<string, number>>,
+}
+
+interface ScannedFile {
+    words: Map<string, number>,
+    /**
+     * The phrases which are suggested, only counted if phrases are enabled.
+     */
+    phrases: Map<string, number>,
+    /**
+     * The phrases of two and three words which the next word predictions are built from, only counted if predictions
+     * are enabled.
+     */
+    nextWordPhrases: Map<string, number>,
+}
 
 class ScannerSuggestionProvider extends DictionaryProvider {
 
-    readonly wordMap: Map<string, Set<string>> = new Map<string, Set<string>>();
+    private readonly wordIndex: BlockWordIndex = new BlockWordIndex();
+
+    private readonly scannedFiles: Map<string, ScannedFile> = new Map<string, ScannedFile>();
+    /**
+     * How often each word occurs in all scanned files. A word is removed once this reaches zero.
+     */
+    private readonly wordCounts: Map<string, number> = new Map<string, number>();
+    /**
+     * How often each phrase occurs in all scanned files. Phrases are only added to the word index once they occur often
+     * enough.
+     */
+    private readonly phraseCounts: Map<string, number> = new Map<string, number>();
+    private minPhraseOccurrences = Infinity;
+    /**
+     * Maps one or two lower case words to the words which followed them in the scanned files and how often they did.
+     */
+    private readonly nextWords: Map<string, Map<string, number>> = new Map<string, Map<string, number>>();
+
+    /**
+     * Whether the words have changed since they were saved. Changes made while editing are only saved periodically, as
+     * saving writes the words of the whole vault.
+     */
+    private hasUnsavedChanges = false;
+
+    private app: App;
+
+    initialize(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Adds the phrases which occur often enough to the word index and removes all others. Has to be called whenever the
+     * phrase settings change.
+     */
+    applyPhraseSettings(settings: CompletrSettings) {
+        this.minPhraseOccurrences = settings.fileScannerPhrasesEnabled ? settings.fileScannerMinPhraseOccurrences : Infinity;
+        for (let [phrase, count] of this.phraseCounts.entries())
+            this.updatePhraseIndex(phrase, count);
+    }
 
     isEnabled(settings: CompletrSettings): boolean {
         return settings.fileScannerProviderEnabled;
     }
 
-    async scanFiles(settings: CompletrSettings, files: TFile[]) {
-        for (let file of files) {
-            await this.scanFile(settings, file, false);
+    protected getWordIndexes(): WordIndex[] {
+        return [this.wordIndex];
+    }
+
+    getSuggestions(context: SuggestionContext, settings: CompletrSettings): Suggestion[] {
+        if (context.query || !this.isEnabled(settings))
+            return super.getSuggestions(context, settings);
+
+        const prediction = settings.fileScannerNextWordPrediction;
+        if (prediction === NextWordPrediction.OFF || (prediction === NextWordPrediction.ON_COMMAND && !context.manuallyTriggered))
+            return [];
+
+        return this.predictNextWords(context, settings);
+    }
+
+    protected getFrequency(word: string): number {
+        return this.wordCounts.get(word) ?? this.phraseCounts.get(word) ?? 0;
+    }
+
+    /*
+     * Phrases are only suggested for queries which match the start of the phrase, as the query only contains a single
+     * word.
+     */
+    protected isSuggested(word: string, query: string, settings: CompletrSettings): boolean {
+        if (!this.phraseCounts.has(word) || this.wordCounts.has(word))
+            return true;
+
+        const ignoreCase = settings.wordInsertionMode != WordInsertionMode.MATCH_CASE_REPLACE;
+        let prefix = maybeLowerCase(word.substring(0, query.length), ignoreCase);
+        query = maybeLowerCase(query, ignoreCase);
+        if (settings.ignoreDiacriticsWhenFiltering) {
+            prefix = removeDiacritics(prefix);
+            query = removeDiacritics(query);
         }
 
-        await this.saveData(files[0].vault);
+        return prefix === query;
     }
 
-    async scanFile(settings: CompletrSettings, file: TFile, saveImmediately: boolean) {
-        const contents = await file.vault.cachedRead(file);
+    /**
+     * Scans all given files, tokenizing them in a web worker. Returns false if the scan was aborted.
+     */
+    async scanFiles(settings: CompletrSettings, files: TFile[], options: ScanOptions = {}): Promise<boolean> {
+        if (files.length < 1)
+            return true;
+
+        const worker = new ScanWorker();
+        const tokenizerOptions = getTokenizerOptions(settings);
+        try {
+            for (let i = 0; i < files.length; i += SCAN_BATCH_SIZE) {
+                if (options.abortSignal?.aborted)
+                    break;
 
-        const regex = new RegExp("\\$+.*?\\$+|`+.*?`+|\\[+.*?\\]+|https?:\\/\\/[^\\n\\s]+|([" + settings.characterRegex + "]+)", "gsu");
-        for (let match of contents.matchAll(regex)) {
-            const groupValue = match[1];
-            if (!groupValue || groupValue.length < settings.minWordLength)
-                continue;
+                const batch = files.slice(i, i + SCAN_BATCH_SIZE);
+                const results = await Promise.all(batch.map(async file => ({
+                    path: file.path,
+                    text: await worker.tokenize(await this.readScannedText(settings, file), tokenizerOptions),
+                })));
+                for (let {path, text} of results)
+                    this.updateFile(path, toScannedFile(text, settings));
 
-            this.addWord(groupValue);
+                options.onProgress?.(i + batch.length, files.length);
+            }
+        } finally {
+            worker.terminate();
         }
 
+        const aborted = options.abortSignal?.aborted ?? false;
+        //The legacy words are only replaced once all files have been scanned
+        if (!aborted)
+            this.forgetFile(LEGACY_FILE_PATH);
+
+        await this.saveData(files[0].vault);
+        return !aborted;
+    }
+
+    async scanFile(settings: CompletrSettings, file: TFile, saveImmediately: boolean) {
+        const contents = await this.readScannedText(settings, file);
+        this.updateFile(file.path, toScannedFile(tokenizeText(contents, getTokenizerOptions(settings)), settings));
+
         if (saveImmediately)
             await this.saveData(file.vault);
+        else
+            this.hasUnsavedChanges = true;
+    }
+
+    /**
+     * Remembers a file which was created after the vault was scanned, so that its words are scanned once it is modified.
+     */
+    onFileCreated(file: TFile) {
+        if (this.scannedFiles.size > 0 && !this.scannedFiles.has(file.path))
+            this.scannedFiles.set(file.path, emptyFile());
+    }
+
+    /**
+     * Scans a modified file again if it was scanned before, which also removes the words that are no longer in it.
+     */
+    onFileModified(settings: CompletrSettings, file: TFile, contents: string, cache: CachedMetadata) {
+        if (!this.scannedFiles.has(file.path))
+            return;
+
+        const text = extractScannedText(contents, cache, settings);
+        this.updateFile(file.path, toScannedFile(tokenizeText(text, getTokenizerOptions(settings)), settings));
+        this.hasUnsavedChanges = true;
+    }
+
+    onFileDeleted(vault: Vault, path: string) {
+        this.removeFiles(vault, [path]);
+    }
+
+    /**
+     * Removes the words of the given files, for example because they are excluded from scanning now.
+     */
+    removeFiles(vault: Vault, paths: string[]) {
+        const scannedPaths = paths.filter(path => this.scannedFiles.has(path));
+        if (scannedPaths.length < 1)
+            return;
+
+        for (let path of scannedPaths)
+            this.forgetFile(path);
+        this.hasUnsavedChanges = true;
+    }
+
+    onFileRenamed(vault: Vault, oldPath: string, newPath: string) {
+        const scannedFile = this.scannedFiles.get(oldPath);
+        if (!scannedFile)
+            return;
+
+        this.scannedFiles.delete(oldPath);
+        this.scannedFiles.set(newPath, scannedFile);
+        this.hasUnsavedChanges = true;
+    }
+
+    /**
+     * Saves the words if they have changed since they were last saved.
+     */
+    async saveChanges(vault: Vault) {
+        if (this.hasUnsavedChanges)
+            await this.saveData(vault);
     }
 
     async saveData(vault: Vault) {
-        let output: string[] = [];
-        for (let entry of this.wordMap.entries()) {
-            output = [...output, ...entry[1]];
+        this.hasUnsavedChanges = false;
+        const minPhraseCount = Math.min(this.minPhraseOccurrences, MIN_SAVED_PHRASE_COUNT);
+        const data: ScannedWordsData = {files: createRecord(), phrases: createRecord(), nextWordPhrases: createRecord()};
+        for (let [path, scannedFile] of this.scannedFiles.entries()) {
+            data.files[path] = mapToRecord(scannedFile.words);
+
+            const phrases = filterCounts(scannedFile.phrases, phrase => this.phraseCounts.get(phrase) >= minPhraseCount);
+            if (phrases.size > 0)
+                data.phrases[path] = mapToRecord(phrases);
+            const nextWordPhrases = filterCounts(scannedFile.nextWordPhrases, phrase => this.getNextWordCount(phrase) >= MIN_SAVED_PHRASE_COUNT);
+            if (nextWordPhrases.size > 0)
+                data.nextWordPhrases[path] = mapToRecord(nextWordPhrases);
         }
 
-        await vault.adapter.write(intoCompletrPath(vault, SCANNED_WORDS_PATH), output.join("\n"));
+        await vault.adapter.write(intoCompletrPath(vault, SCANNED_WORDS_PATH), JSON.stringify(data));
     }
 
     async loadData(vault: Vault) {
         const path = intoCompletrPath(vault, SCANNED_WORDS_PATH);
-        if (!(await vault.adapter.exists(path)))
-            return
+        if (!(await vault.adapter.exists(path))) {
+            await this.migrateLegacyData(vault);
+            return;
+        }
 
-        const contents = (await vault.adapter.read(path)).split(NEW_LINE_REGEX);
-        for (let word of contents) {
-            this.addWord(word);
+        let data: ScannedWordsData;
+        try {
+            data = JSON.parse(await vault.adapter.read(path));
+        } catch (e) {
+            console.log("Completr: Unable to parse " + path, e);
+            return;
+        }
+
+        const phrases = data.phrases ?? {};
+        const nextWordPhrases = data.nextWordPhrases ?? {};
+        for (let filePath of Object.keys(data.files ?? {})) {
+            this.updateFile(filePath, {
+                words: recordToMap(data.files[filePath]),
+                phrases: recordToMap(phrases[filePath] ?? {}),
+                nextWordPhrases: recordToMap(nextWordPhrases[filePath] ?? {}),
+            });
         }
     }
 
     async deleteAllWords(vault: Vault) {
-        this.wordMap.clear();
+        this.wordIndex.clear();
+        this.scannedFiles.clear();
+        this.wordCounts.clear();
+        this.phraseCounts.clear();
+        this.nextWords.clear();
+        await this.saveData(vault);
+    }
+
+    /*
+     * Suggests the words which most often followed the one or two words before the cursor.
+     */
+    private predictNextWords(context: SuggestionContext, settings: CompletrSettings): Suggestion[] {
+        const previousWords = getPreviousWords(context, settings);
+        if (!previousWords)
+            return [];
+
+        const scores = new Map<string, number>();
+        const addCandidates = (key: string, weight: number) => {
+            for (let [word, count] of (this.nextWords.get(key) ?? new Map<string, number>()).entries())
+                scores.set(word, (scores.get(word) ?? 0) + count * weight);
+        };
+        addCandidates(previousWords[1].toLowerCase(), 1);
+        if (previousWords[0])
+            addCandidates(previousWords[0].toLowerCase() + " " + previousWords[1].toLowerCase(), TRIGRAM_WEIGHT);
+
+        return Array.from(scores.entries())
+            .filter(([word]) => !SuggestionBlacklist.hasText(word))
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_PREDICTIONS)
+            .map(([word, score]) => new Suggestion(word, word, undefined, undefined, {
+                score: Math.round(Math.log2(1 + score) * PREDICTION_SCORE_WEIGHT),
+            }));
+    }
+
+    private async readScannedText(settings: CompletrSettings, file: TFile): Promise<string> {
+        const contents = await file.vault.cachedRead(file);
+        return extractScannedText(contents, this.app?.metadataCache.getFileCache(file), settings);
+    }
+
+    /*
+     * Imports the words of the old format, which only stored a list of words.
+     */
+    private async migrateLegacyData(vault: Vault) {
+        const path = intoCompletrPath(vault, LEGACY_SCANNED_WORDS_PATH);
+        if (!(await vault.adapter.exists(path)))
+            return;
+
+        const words = new Map<string, number>();
+        for (let word of (await vault.adapter.read(path)).split(NEW_LINE_REGEX)) {
+            if (word)
+                words.set(word, 1);
+        }
+
+        this.updateFile(LEGACY_FILE_PATH, {words, phrases: new Map(), nextWordPhrases: new Map()});
         await this.saveData(vault);
+        await vault.adapter.remove(path);
+    }
+
+    /*
+     * Replaces the words and phrases of the given file, updating the total counts of all affected words and phrases.
+     * Files without any words are kept, so that they are scanned again once they are modified.
+     */
+    private updateFile(path: string, scannedFile: ScannedFile) {
+        const oldFile = this.scannedFiles.get(path);
+        if (oldFile) {
+            for (let [word, count] of oldFile.words.entries())
+                this.changeWordCount(word, -count);
+        }
+        for (let [word, count] of scannedFile.words.entries())
+            this.changeWordCount(word, count);
+
+        this.updatePhrases(oldFile, scannedFile);
+        this.scannedFiles.set(path, scannedFile);
+    }
+
+    private updatePhrases(oldFile: ScannedFile | undefined, scannedFile: ScannedFile) {
+        if (oldFile) {
+            for (let [phrase, count] of oldFile.phrases.entries())
+                this.changePhraseCount(phrase, -count);
+            for (let [phrase, count] of oldFile.nextWordPhrases.entries())
+                this.changeNextWordCount(phrase, -count);
+        }
+
+        for (let [phrase, count] of scannedFile.phrases.entries())
+            this.changePhraseCount(phrase, count);
+        for (let [phrase, count] of scannedFile.nextWordPhrases.entries())
+            this.changeNextWordCount(phrase, count);
+    }
+
+    /*
+     * Removes the words and phrases of the given file, which won't be scanned again when it is modified.
+     */
+    private forgetFile(path: string) {
+        this.updateFile(path, emptyFile());
+        this.scannedFiles.delete(path);
+    }
+
+    private changeWordCount(word: string, delta: number) {
+        const count = (this.wordCounts.get(word) ?? 0) + delta;
+        if (count > 0) {
+            this.wordCounts.set(word, count);
+            this.addWord(word);
+        } else {
+            this.wordCounts.delete(word);
+            //A phrase can be equal to a word if the word character regex includes spaces
+            this.updatePhraseIndex(word, this.phraseCounts.get(word) ?? 0);
+        }
+    }
+
+    private changePhraseCount(phrase: string, delta: number) {
+        const count = (this.phraseCounts.get(phrase) ?? 0) + delta;
+        if (count > 0)
+            this.phraseCounts.set(phrase, count);
+        else
+            this.phraseCounts.delete(phrase);
+
+        this.updatePhraseIndex(phrase, count);
+    }
+
+    private updatePhraseIndex(phrase: string, count: number) {
+        if (this.wordCounts.has(phrase))
+            return;
+
+        if (count > 0 && count >= this.minPhraseOccurrences)
+            this.addWord(phrase);
+        else
+            this.removeWord(phrase);
+    }
+
+    private getNextWordCount(phrase: string): number {
+        const separatorIndex = phrase.lastIndexOf(" ");
+        return this.nextWords.get(phrase.substring(0, separatorIndex).toLowerCase())?.get(phrase.substring(separatorIndex + 1)) ?? 0;
+    }
+
+    private changeNextWordCount(phrase: string, delta: number) {
+        const separatorIndex = phrase.lastIndexOf(" ");
+        const key = phrase.substring(0, separatorIndex).toLowerCase();
+        const nextWord = phrase.substring(separatorIndex + 1);
+        let words = this.nextWords.get(key);
+        if (!words) {
+            words = new Map<string, number>();
+            this.nextWords.set(key, words);
+        }
+
+        const count = (words.get(nextWord) ?? 0) + delta;
+        if (count > 0)
+            words.set(nextWord, count);
+        else
+            words.delete(nextWord);
+
+        if (words.size < 1)
+            this.nextWords.delete(key);
     }
 
     private addWord(word: string) {
         if (!word || SuggestionBlacklist.hasText(word))
             return;
 
-        let list = this.wordMap.get(word.charAt(0));
-        if (!list) {
-            list = new Set<string>();
-            this.wordMap.set(word.charAt(0), list);
-        }
+        this.wordIndex.add(word);
+    }
 
-        list.add(word);
+    private removeWord(word: string) {
+        this.wordIndex.delete(word);
     }
 }
 
 export const FileScanner = new ScannerSuggestionProvider();
+
+function getTokenizerOptions(settings: CompletrSettings): TokenizerOptions {
+    return {
+        characterRegex: getWordCharacters(settings),
+        minWordLength: settings.minWordLength,
+        segmentWords: settings.wordSegmentation === WordSegmentation.UNICODE,
+        maxPhraseLength: settings.fileScannerPhrasesEnabled ? MAX_PHRASE_LENGTH :
+            settings.fileScannerNextWordPrediction !== NextWordPrediction.OFF ? PREDICTION_PHRASE_LENGTH : 0,
+    };
+}
+
+/*
+ * Returns the two words before the cursor, which have to be separated by spaces from each other and the cursor. The
+ * first word is undefined if there is only one.
+ */
+function getPreviousWords(context: SuggestionContext, settings: CompletrSettings): [string | undefined, string] | null {
+    const cursor: EditorPosition = context.end;
+    const lookBackStart = Math.max(0, cursor.ch - settings.maxLookBackDistance);
+    const text = context.editor.getRange({line: cursor.line, ch: lookBackStart}, cursor);
+
+    const characters = "[" + getWordCharacters(settings) + "]+";
+    const match = new RegExp("(?:(" + characters + ")[ \\t]+)?(" + characters + ")[ \\t]+$", "u").exec(text);
+    if (!match)
+        return null;
+
+    return [match[1], match[2]];
+}
+
+/*
+ * Only keeps the phrases which are needed for the enabled features. The predictions are built from the phrases of two
+ * and three words, which are not suggested unless phrases are enabled.
+ */
+function toScannedFile(text: TokenizedText, settings: CompletrSettings): ScannedFile {
+    const nextWordPhrases = new Map<string, number>();
+    if (settings.fileScannerNextWordPrediction !== NextWordPrediction.OFF) {
+        for (let [phrase, count] of text.phrases.entries()) {
+            if (phrase.includes(" ") && phrase.split(" ").length <= PREDICTION_PHRASE_LENGTH)
+                nextWordPhrases.set(phrase, count);
+        }
+    }
+
+    return {
+        words: text.words,
+        phrases: settings.fileScannerPhrasesEnabled ? text.phrases : new Map(),
+        nextWordPhrases,
+    };
+}
+
+function emptyFile(): ScannedFile {
+    return {words: new Map(), phrases: new Map(), nextWordPhrases: new Map()};
+}
+
+/*
+ * Records without a prototype store keys like "__proto__" like any other key.
+ */
+function createRecord<T>(): Record<string, T> {
+    return Object.create(null);
+}
+
+function filterCounts(counts: Map<string, number>, predicate: (key: string) => boolean): Map<string, number> {
+    const result = new Map<string, number>();
+    for (let [key, count] of counts.entries()) {
+        if (predicate(key))
+            result.set(key, count);
+    }
+
+    return result;
+}
+
+function mapToRecord(map: Map<string, number>): Record<string, number> {
+    const record: Record<string, number> = createRecord();
+    for (let [key, value] of map.entries())
+        record[key] = value;
+
+    return record;
+}
+
+function recordToMap(record: Record<string, number>): Map<string, number> {
+    const map = new Map<string, number>();
+    for (let key of Object.keys(record))
+        map.set(key, record[key]);
+
+    return map;
+}
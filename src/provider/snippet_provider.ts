@@ -0,0 +1,192 @@
+import {Suggestion, SuggestionContext, SuggestionProvider} from "./provider";
+import {CompletrSettings, intoCompletrPath} from "../settings";
+import {debounce, Editor, EditorPosition, Notice, Vault} from "obsidian";
+import {getCodeBlockLanguage, getLatexBlockType, isInFrontMatterBlock} from "../editor_helpers";
+import {matchScore} from "../fuzzy_matcher";
+import {SuggestionBlacklist} from "./blacklist";
+
+const SNIPPETS_FOLDER_PATH = "snippets";
+const EXAMPLE_SNIPPETS_FILE = "examples.json";
+const DEFAULT_SCOPES = ["body"];
+const SCOPE_REGEX = /^(body|latex|frontmatter|code(:.+)?)$/;
+
+/**
+ * A snippet as it is written in a snippet file. The body uses the snippet syntax and can be written as a list of lines.
+ * The scopes define where the snippet is suggested:
+ * - `body`: The text of a note, outside of any of the other scopes
+ * - `latex`: Inside of a LaTeX block
+ * - `frontmatter`: Inside of the front matter
+ * - `code`: Inside of any code block, `code:python` only inside of python code blocks
+ */
+interface SnippetDefinition {
+    trigger: string,
+    description?: string,
+    scope?: string | string[],
+    body: string | string[],
+}
+
+interface LoadedSnippet {
+    trigger: string,
+    description: string | undefined,
+    scopes: string[],
+    body: string,
+}
+
+class SnippetSuggestionProvider implements SuggestionProvider {
+
+    private loadedSnippets: LoadedSnippet[] = [];
+
+    getSuggestions(context: SuggestionContext, settings: CompletrSettings): Suggestion[] {
+        if (!settings.snippetProviderEnabled || !context.query || this.loadedSnippets.length < 1)
+            return [];
+
+        const scope = getScopeAt(context.editor, context.start, settings);
+        const matchOptions = {
+            ignoreCase: true,
+            fuzzy: settings.fuzzyMatching,
+        };
+
+        const result: Suggestion[] = [];
+        for (let snippet of this.loadedSnippets) {
+            if (!snippet.scopes.some(s => scopeMatches(s, scope)))
+                continue;
+
+            const score = matchScore(context.query, snippet.trigger, matchOptions);
+            if (score === null)
+                continue;
+
+            result.push(new Suggestion(snippet.trigger, snippet.body, undefined, undefined, {
+                icon: "lucide-scissors",
+                description: snippet.description,
+                score,
+            }));
+        }
+
+        return result;
+    }
+
+    async loadSnippets(vault: Vault) {
+        const folder = intoCompletrPath(vault, SNIPPETS_FOLDER_PATH);
+        if (!(await vault.adapter.exists(folder))) {
+            await vault.adapter.mkdir(folder);
+            await vault.adapter.write(folder + "/" + EXAMPLE_SNIPPETS_FILE, JSON.stringify(generateExampleSnippets(), null, 2));
+        }
+
+        const snippets: LoadedSnippet[] = [];
+        for (let path of (await vault.adapter.list(folder)).files) {
+            if (!path.endsWith(".json"))
+                continue;
+
+            try {
+                snippets.push(...parseSnippetFile(await vault.adapter.read(path)));
+            } catch (e) {
+                console.log("Completr snippet file parse error:", e.message);
+                new Notice("Failed to parse snippet file " + path + ". " + e.message, 3000);
+            }
+        }
+
+        this.loadedSnippets = snippets.filter(snippet => !SuggestionBlacklist.hasText(snippet.trigger));
+    }
+
+    /**
+     * Reloads all snippets if the changed file is inside the snippets folder.
+     */
+    onFileChanged(vault: Vault, path: string) {
+        if (path.startsWith(intoCompletrPath(vault, SNIPPETS_FOLDER_PATH)))
+            this.reloadSnippets(vault);
+    }
+
+    private readonly reloadSnippets = debounce((vault: Vault) => this.loadSnippets(vault), 500, true);
+}
+
+export const SnippetLibrary = new SnippetSuggestionProvider();
+
+function parseSnippetFile(data: string): LoadedSnippet[] {
+    const definitions: SnippetDefinition[] = JSON.parse(data);
+    if (!(definitions instanceof Array))
+        throw new Error("JSON root must be array.");
+
+    return definitions.map(definition => {
+        if (typeof definition.trigger !== "string" || !definition.trigger || definition.trigger.includes("\n"))
+            throw new Error("Invalid trigger: " + definition.trigger);
+        if (typeof definition.body !== "string" && !(definition.body instanceof Array))
+            throw new Error("Missing body for snippet " + definition.trigger);
+
+        const scopes = definition.scope === undefined ? DEFAULT_SCOPES :
+            typeof definition.scope === "string" ? [definition.scope] : definition.scope;
+        const invalidScope = scopes.find(scope => !SCOPE_REGEX.test(scope));
+        if (invalidScope !== undefined)
+            throw new Error("Invalid scope for snippet " + definition.trigger + ": " + invalidScope);
+
+        return {
+            trigger: definition.trigger,
+            description: definition.description,
+            scopes,
+            body: definition.body instanceof Array ? definition.body.join("\n") : definition.body,
+        };
+    });
+}
+
+/*
+ * Returns the scope at the given position. Code blocks use "code:" followed by their language.
+ */
+function getScopeAt(editor: Editor, pos: EditorPosition, settings: CompletrSettings): string {
+    if (isInFrontMatterBlock(editor, pos))
+        return "frontmatter";
+
+    const language = getCodeBlockLanguage(editor, pos);
+    if (language !== null)
+        return "code:" + language;
+
+    if (getLatexBlockType(editor, pos, settings.latexTriggerInCodeBlocks))
+        return "latex";
+
+    return "body";
+}
+
+function scopeMatches(snippetScope: string, scope: string): boolean {
+    return snippetScope === scope || (snippetScope === "code" && scope.startsWith("code:"));
+}
+
+/*
+ * Generates the example snippets, which are written to the snippets folder if it doesn't exist yet.
+ */
+function generateExampleSnippets(): SnippetDefinition[] {
+    return [
+        {
+            trigger: "meeting",
+            description: "Meeting notes",
+            body: [
+                "## ${1:Meeting} (${DATE})",
+                "**Attendees:** $2",
+                "",
+                "### Notes",
+                "- $0",
+            ],
+        },
+        {
+            trigger: "task",
+            description: "Task with a due date",
+            body: "- [ ] ${1:Task} (due ${2:${DATE}})$0",
+        },
+        {
+            trigger: "table",
+            description: "Table with two columns",
+            body: [
+                "| ${1:Column} | ${2:Column} |",
+                "| ${3|:---,:---:,---:|} | ${4|:---,:---:,---:|} |",
+                "| $5 | $6 |",
+            ],
+        },
+        {
+            trigger: "aligned",
+            description: "Aligned equations",
+            scope: "latex",
+            body: [
+                "\\begin{aligned}",
+                "$1 &= $2 \\\\",
+                "\\end{aligned}",
+            ],
+        },
+    ];
+}
@@ -0,0 +1,135 @@
+import {Suggestion} from "./provider";
+import {Vault} from "obsidian";
+import {intoCompletrPath} from "../settings";
+
+const USAGE_PATH = "suggestion_usage.json";
+const MAX_ENTRIES = 5000;
+const MAX_PREFIX_LENGTH = 10;
+
+const FREQUENCY_WEIGHT = 40;
+const RECENCY_WEIGHT = 100;
+const RECENCY_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+const PREFIX_WEIGHT = 30;
+const MAX_PREFIX_COUNT = 5;
+const MAX_BOOST = 400;
+
+interface UsageEntry {
+    count: number,
+    lastUsed: number,
+    /**
+     * The lower case queries which were typed when this suggestion was accepted, with their count.
+     */
+    prefixes: Map<string, number>,
+}
+
+/**
+ * How an entry is stored in suggestion_usage.json.
+ */
+interface SavedUsageEntry {
+    count: number,
+    lastUsed: number,
+    prefixes: Record<string, number>,
+}
+
+export const SuggestionUsage = new class {
+    private usage: Map<string, UsageEntry> = new Map<string, UsageEntry>();
+
+    record(suggestion: Suggestion, query: string) {
+        let entry = this.usage.get(suggestion.displayName);
+        if (!entry) {
+            entry = {count: 0, lastUsed: 0, prefixes: new Map<string, number>()};
+            this.usage.set(suggestion.displayName, entry);
+        }
+
+        entry.count++;
+        entry.lastUsed = Date.now();
+
+        const prefix = query.toLowerCase().substring(0, MAX_PREFIX_LENGTH);
+        if (prefix)
+            entry.prefixes.set(prefix, (entry.prefixes.get(prefix) ?? 0) + 1);
+    }
+
+    /**
+     * Returns how much the score of the given suggestion should be raised, based on how often and how recently it was
+     * accepted. Suggestions which were accepted for exactly this query get an additional boost.
+     */
+    getBoost(suggestion: Suggestion, query: string): number {
+        const entry = this.usage.get(suggestion.displayName);
+        if (!entry)
+            return 0;
+
+        const frequency = Math.log2(1 + entry.count) * FREQUENCY_WEIGHT;
+        const recency = RECENCY_WEIGHT * Math.pow(0.5, (Date.now() - entry.lastUsed) / RECENCY_HALF_LIFE_MS);
+        const prefixCount = entry.prefixes.get(query.toLowerCase().substring(0, MAX_PREFIX_LENGTH)) ?? 0;
+        const prefix = Math.min(prefixCount, MAX_PREFIX_COUNT) * PREFIX_WEIGHT;
+
+        return Math.min(MAX_BOOST, Math.round(frequency + recency + prefix));
+    }
+
+    export(): string {
+        //Without a prototype, keys like "__proto__" are stored like any other key
+        const data: Record<string, SavedUsageEntry> = Object.create(null);
+        for (let [displayName, entry] of this.usage.entries()) {
+            const prefixes: Record<string, number> = Object.create(null);
+            for (let [prefix, count] of entry.prefixes.entries())
+                prefixes[prefix] = count;
+
+            data[displayName] = {count: entry.count, lastUsed: entry.lastUsed, prefixes};
+        }
+
+        return JSON.stringify(data, null, 2);
+    }
+
+    async reset(vault: Vault) {
+        this.usage.clear();
+        await this.saveData(vault);
+    }
+
+    async saveData(vault: Vault) {
+        // Forget the least recently used suggestions
+        if (this.usage.size > MAX_ENTRIES) {
+            const entries = [...this.usage.entries()].sort((a, b) => b[1].lastUsed - a[1].lastUsed);
+            this.usage = new Map(entries.slice(0, MAX_ENTRIES));
+        }
+
+        await vault.adapter.write(intoCompletrPath(vault, USAGE_PATH), this.export());
+    }
+
+    async loadData(vault: Vault) {
+        const path = intoCompletrPath(vault, USAGE_PATH);
+        if (!(await vault.adapter.exists(path)))
+            return;
+
+        try {
+            const data = JSON.parse(await vault.adapter.read(path));
+            const usage = new Map<string, UsageEntry>();
+            for (let displayName of Object.keys(data ?? {})) {
+                const entry = parseUsageEntry(data[displayName]);
+                if (entry)
+                    usage.set(displayName, entry);
+            }
+
+            this.usage = usage;
+        } catch (e) {
+            console.log("Completr: Unable to parse " + path, e.message);
+        }
+    }
+};
+
+/*
+ * Returns null if the saved entry doesn't have the expected shape, for example because the file was edited by hand.
+ */
+function parseUsageEntry(saved: SavedUsageEntry): UsageEntry | null {
+    if (!saved || typeof saved.count !== "number" || typeof saved.lastUsed !== "number")
+        return null;
+
+    const prefixes = new Map<string, number>();
+    if (saved.prefixes && typeof saved.prefixes === "object") {
+        for (let prefix of Object.keys(saved.prefixes)) {
+            if (typeof saved.prefixes[prefix] === "number")
+                prefixes.set(prefix, saved.prefixes[prefix]);
+        }
+    }
+
+    return {count: saved.count, lastUsed: saved.lastUsed, prefixes};
+}
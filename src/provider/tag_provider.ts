@@ -0,0 +1,87 @@
+import {Suggestion, SuggestionContext, SuggestionProvider} from "./provider";
+import {CompletrSettings, getWordCharacters} from "../settings";
+import {App} from "obsidian";
+import {isInCodeBlock, isInFrontMatterBlock, matchTagBackwards} from "../editor_helpers";
+import {matchScore} from "../fuzzy_matcher";
+
+const HEADING_REGEX = /^#{1,6}\s/;
+const COUNT_WEIGHT = 20;
+
+class TagSuggestionProvider implements SuggestionProvider {
+    blocksAllOtherProviders: boolean = true;
+
+    private app: App;
+
+    initialize(app: App) {
+        this.app = app;
+    }
+
+    getSuggestions(context: SuggestionContext, settings: CompletrSettings): Suggestion[] {
+        if (!settings.tagProviderEnabled || !this.app)
+            return [];
+
+        const {editor} = context;
+        const line = editor.getLine(context.end.line);
+        if (HEADING_REGEX.test(line))
+            return [];
+
+        const {query, separatorChar} = matchTagBackwards(editor, context.end, "0-9" + getWordCharacters(settings), settings.maxLookBackDistance);
+        if (separatorChar !== "#" || query.length < 1)
+            return [];
+
+        // The # has to start a new word
+        const hashCh = context.end.ch - query.length - 1;
+        if (hashCh > 0 && !/\s/.test(line.charAt(hashCh - 1)))
+            return [];
+
+        if (isInFrontMatterBlock(editor, context.end) || isInCodeBlock(editor, context.end))
+            return [];
+
+        const matchOptions = {
+            ignoreCase: true,
+            fuzzy: settings.fuzzyMatching,
+        };
+        const start = {...context.end, ch: context.end.ch - query.length};
+
+        const result: Suggestion[] = [];
+        for (let [tag, count] of this.getTagCounts()) {
+            const score = matchScore(query, tag, matchOptions);
+            if (score === null)
+                continue;
+
+            result.push(new Suggestion(tag, tag, start, context.end, {
+                icon: "lucide-tag",
+                description: count + "",
+                // Frequently used tags are ranked higher
+                score: score + Math.round(Math.log2(1 + count) * COUNT_WEIGHT),
+                literal: true,
+            }));
+        }
+
+        return result;
+    }
+
+    /*
+     * Returns all tags in the vault, without the leading #, and how often they are used. Each parent of a nested tag
+     * is included as well, using the sum of its children's counts.
+     */
+    private getTagCounts(): Map<string, number> {
+        const tags: Record<string, number> = (this.app.metadataCache as any).getTags?.() ?? {};
+
+        const result = new Map<string, number>();
+        for (let tag of Object.keys(tags)) {
+            const parts = tag.substring(1).split("/");
+            for (let i = 1; i <= parts.length; i++) {
+                const name = parts.slice(0, i).join("/");
+                if (!name)
+                    continue;
+
+                result.set(name, (result.get(name) ?? 0) + tags[tag]);
+            }
+        }
+
+        return result;
+    }
+}
+
+export const Tag = new TagSuggestionProvider();
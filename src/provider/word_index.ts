@@ -0,0 +1,208 @@
+import {removeDiacritics} from "../fuzzy_matcher";
+
+/**
+ * Blocks are split once they contain more words, which keeps inserting a word into a block cheap.
+ */
+const MAX_BLOCK_SIZE = 1024;
+
+/**
+ * Returns the key which words are indexed by, which is lower case and without diacritics. Queries have to be normalized
+ * the same way before looking them up.
+ */
+export function normalizeWord(word: string): string {
+    return removeDiacritics(word.toLowerCase());
+}
+
+export interface WordIndex {
+    readonly size: number;
+
+    /**
+     * Calls the callback for every word whose normalized form starts with the given normalized prefix, in the order of
+     * their normalized form. The normalized form is passed as the key. Stops after the given number of words.
+     */
+    forEachWithPrefix(prefix: string, callback: (word: string, key: string) => void, limit?: number): void;
+}
+
+interface WordBlock {
+    keys: string[],
+    words: string[],
+}
+
+/**
+ * An index which can't be changed after it was built. The words are sorted by their normalized form, which allows to
+ * find all words with a prefix using a binary search. Used for large word lists.
+ */
+export class SortedWordIndex implements WordIndex {
+
+    private readonly keys: string[];
+    private readonly words: string[];
+
+    constructor(words: string[]) {
+        //Words which are already normalized share the string with their key
+        const keys = words.map(word => {
+            const key = normalizeWord(word);
+            return key === word ? word : key;
+        });
+        const order = Array.from(keys.keys()).sort((a, b) => compareKeys(keys[a], keys[b]));
+
+        this.keys = order.map(i => keys[i]);
+        this.words = order.map(i => words[i]);
+    }
+
+    get size(): number {
+        return this.words.length;
+    }
+
+    forEachWithPrefix(prefix: string, callback: (word: string, key: string) => void, limit = Infinity) {
+        const start = this.lowerBound(prefix);
+        const end = Math.min(this.keys.length, start + limit);
+        for (let i = start; i < end && this.keys[i].startsWith(prefix); i++)
+            callback(this.words[i], this.keys[i]);
+    }
+
+    /*
+     * Returns the index of the first key which is not smaller than the given key.
+     */
+    private lowerBound(key: string): number {
+        let low = 0;
+        let high = this.keys.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (compareKeys(this.keys[middle], key) < 0)
+                low = middle + 1;
+            else
+                high = middle;
+        }
+
+        return low;
+    }
+}
+
+/**
+ * An index which allows to add and remove words at any time. Like in SortedWordIndex, the words are sorted by their
+ * normalized form, but they are split into blocks of limited size. Adding or removing a word only moves the words of a
+ * single block. Used for words which change often.
+ */
+export class BlockWordIndex implements WordIndex {
+
+    private blocks: WordBlock[] = [];
+    private wordCount = 0;
+
+    get size(): number {
+        return this.wordCount;
+    }
+
+    add(word: string) {
+        const key = normalizeWord(word);
+        //Words which are already normalized share the string with their key
+        const sharedKey = key === word ? word : key;
+        if (this.blocks.length < 1) {
+            this.blocks.push({keys: [sharedKey], words: [word]});
+            this.wordCount++;
+            return;
+        }
+
+        const blockIndex = this.findBlock(key, word);
+        const block = this.blocks[blockIndex];
+        const i = lowerBound(block, key, word);
+        if (block.words[i] === word)
+            return;
+
+        block.keys.splice(i, 0, sharedKey);
+        block.words.splice(i, 0, word);
+        this.wordCount++;
+
+        if (block.words.length > MAX_BLOCK_SIZE) {
+            const half = block.words.length >> 1;
+            this.blocks.splice(blockIndex + 1, 0, {keys: block.keys.splice(half), words: block.words.splice(half)});
+        }
+    }
+
+    delete(word: string) {
+        if (this.blocks.length < 1)
+            return;
+
+        const key = normalizeWord(word);
+        const blockIndex = this.findBlock(key, word);
+        const block = this.blocks[blockIndex];
+        const i = lowerBound(block, key, word);
+        if (block.words[i] !== word)
+            return;
+
+        block.keys.splice(i, 1);
+        block.words.splice(i, 1);
+        this.wordCount--;
+        if (block.words.length < 1)
+            this.blocks.splice(blockIndex, 1);
+    }
+
+    clear() {
+        this.blocks = [];
+        this.wordCount = 0;
+    }
+
+    forEachWithPrefix(prefix: string, callback: (word: string, key: string) => void, limit = Infinity) {
+        if (this.blocks.length < 1)
+            return;
+
+        let count = 0;
+        let blockIndex = this.findBlock(prefix, "");
+        let i = lowerBound(this.blocks[blockIndex], prefix, "");
+        for (; blockIndex < this.blocks.length; blockIndex++, i = 0) {
+            const {keys, words} = this.blocks[blockIndex];
+            for (; i < keys.length; i++) {
+                if (!keys[i].startsWith(prefix) || count++ >= limit)
+                    return;
+
+                callback(words[i], keys[i]);
+            }
+        }
+    }
+
+    /*
+     * Returns the index of the last block whose first word is not larger than the given word, or the first block if
+     * there is none.
+     */
+    private findBlock(key: string, word: string): number {
+        let low = 0;
+        let high = this.blocks.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            const block = this.blocks[middle];
+            if (compareEntries(block.keys[0], block.words[0], key, word) <= 0)
+                low = middle + 1;
+            else
+                high = middle;
+        }
+
+        return Math.max(0, low - 1);
+    }
+}
+
+/*
+ * Returns the index of the first word of the block which is not smaller than the given word.
+ */
+function lowerBound(block: WordBlock, key: string, word: string): number {
+    let low = 0;
+    let high = block.keys.length;
+    while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (compareEntries(block.keys[middle], block.words[middle], key, word) < 0)
+            low = middle + 1;
+        else
+            high = middle;
+    }
+
+    return low;
+}
+
+/*
+ * Words with the same normalized form are sorted by the word itself, which makes it possible to find a specific word.
+ */
+function compareEntries(keyA: string, wordA: string, keyB: string, wordB: string): number {
+    return compareKeys(keyA, keyB) || compareKeys(wordA, wordB);
+}
+
+function compareKeys(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -1,60 +1,167 @@
 import {CompletrSettings, intoCompletrPath} from "../settings";
 import {DictionaryProvider} from "./dictionary_provider";
-import {Vault} from "obsidian";
+import {App, TFile, Vault} from "obsidian";
 import {SuggestionBlacklist} from "./blacklist";
+import {expandHunspellDictionary, HunspellAffixes, parseAffixFile} from "../hunspell";
+import {SuggestionContext} from "./provider";
+import {matchesGlob} from "../scan_filter";
+import {SortedWordIndex, WordIndex} from "./word_index";
 
 const WORD_LISTS_FOLDER_PATH = "wordLists";
 const NEW_LINE_REGEX = /\r?\n/;
+const HUNSPELL_DICTIONARY_EXTENSION = ".dic";
+const HUNSPELL_AFFIX_EXTENSION = ".aff";
+const CSV_EXTENSION = ".csv";
+const NUMBER_REGEX = /^\d+(\.\d+)?$/;
+/**
+ * The maximum number of words generated from a single hunspell dictionary, as some languages have millions of forms.
+ */
+const MAX_HUNSPELL_WORDS = 1000000;
+
+interface LoadedWordList {
+    name: string,
+    index: SortedWordIndex,
+    frequencies: Map<string, number>,
+    descriptions: Map<string, string>,
+}
 
 class WordListSuggestionProvider extends DictionaryProvider {
 
-    readonly wordMap: Map<string, string[]> = new Map<string, string[]>();
+    private wordLists: LoadedWordList[] = [];
+
+    private app: App;
+
+    initialize(app: App) {
+        this.app = app;
+    }
 
     isEnabled(settings: CompletrSettings): boolean {
         return settings.wordListProviderEnabled;
     }
 
+    /*
+     * Lists without a language are always used, the others only if they match the language of the note.
+     */
+    protected getWordIndexes(context: SuggestionContext, settings: CompletrSettings): WordIndex[] {
+        const language = context.file ? this.getNoteLanguage(context.file, settings) : "";
+        return this.wordLists
+            .filter(list => {
+                const listLanguage = (settings.wordListLanguages[list.name] ?? "").trim().toLowerCase();
+                return !language || !listLanguage || languageMatches(listLanguage, language);
+            })
+            .map(list => list.index);
+    }
+
+    protected getFrequency(word: string, index: WordIndex): number {
+        return this.wordLists.find(list => list.index === index)?.frequencies.get(word) ?? 0;
+    }
+
+    protected getDescription(word: string, index: WordIndex): string | undefined {
+        return this.wordLists.find(list => list.index === index)?.descriptions.get(word);
+    }
+
     async loadFromFiles(vault: Vault, settings: CompletrSettings): Promise<number> {
-        this.wordMap.clear();
+        const wordLists: LoadedWordList[] = [];
 
         const fileNames = await this.getRelativeFilePaths(vault);
         // Read all files
         for (let i = fileNames.length - 1; i >= 0; i--) {
             const fileName = fileNames[i];
+            // Affix files are read together with their dictionary
+            if (fileName.endsWith(HUNSPELL_AFFIX_EXTENSION))
+                continue;
+
+            const name = getWordListName(fileName);
+            if (settings.disabledWordLists.contains(name))
+                continue;
 
-            let data: string;
+            let lines: string[];
             try {
-                data = await vault.adapter.read(fileName);
+                lines = await this.readWords(vault, fileName, fileNames);
             } catch (e) {
                 console.log("Completr: Unable to read " + fileName);
                 continue;
             }
 
-            // Each line is a word
-            const lines = data.split(NEW_LINE_REGEX);
-            for (let line of lines) {
-                if (line === "" || line.length < settings.minWordLength)
+            const words: string[] = [];
+            const frequencies = new Map<string, number>();
+            const descriptions = new Map<string, string>();
+
+            // Lines can contain the frequency and description of the word after it, separated by tabs or commas
+            const separator = fileName.endsWith(CSV_EXTENSION) ? "," : "\t";
+            for (let j = 0; j < lines.length; j++) {
+                const columns = splitColumns(lines[j], separator);
+                const word = columns[0].trim();
+                const frequency = columns[1]?.trim();
+                // Skip the header of the file, if it has one
+                if (j === 0 && frequency && !NUMBER_REGEX.test(frequency))
+                    continue;
+                if (word === "" || word.length < settings.minWordLength)
                     continue;
 
-                let list = this.wordMap.get(line.charAt(0));
-                if (!list) {
-                    list = [];
-                    this.wordMap.set(line.charAt(0), list);
-                }
-
-                list.push(line.trim());
+                words.push(word);
+                if (frequency && NUMBER_REGEX.test(frequency))
+                    frequencies.set(word, Math.max(frequencies.get(word) ?? 0, parseFloat(frequency)));
+                if (columns[2]?.trim() && !descriptions.has(word))
+                    descriptions.set(word, columns[2].trim());
             }
+
+            wordLists.push({
+                name,
+                index: new SortedWordIndex(SuggestionBlacklist.filterText(words)),
+                frequencies,
+                descriptions,
+            });
         }
 
-        let count = 0;
-        // Sort by length
-        for (let entry of this.wordMap.entries()) {
-            const newValue = SuggestionBlacklist.filterText(entry[1].sort((a, b) => a.length - b.length));
-            this.wordMap.set(entry[0], newValue);
-            count += newValue.length;
+        this.wordLists = wordLists;
+        return wordLists.reduce((count, list) => count + list.index.size, 0);
+    }
+
+    /**
+     * Returns the lower case language of the given note, which is taken from its front matter, the first matching
+     * folder rule or the default language. Returns an empty string if the note has no language.
+     */
+    private getNoteLanguage(file: TFile, settings: CompletrSettings): string {
+        const frontMatter = this.app?.metadataCache.getFileCache(file)?.frontmatter;
+        let value = frontMatter?.[settings.wordListLanguageProperty];
+        if (Array.isArray(value))
+            value = value[0];
+        if (typeof value === "string" && value.trim())
+            return value.trim().toLowerCase();
+
+        // Rules look like "German/: de"
+        for (let rule of settings.wordListLanguageFolders) {
+            const separatorIndex = rule.lastIndexOf(":");
+            if (separatorIndex !== -1 && matchesGlob(file.path, rule.substring(0, separatorIndex)))
+                return rule.substring(separatorIndex + 1).trim().toLowerCase();
         }
 
-        return count;
+        return settings.wordListDefaultLanguage.trim().toLowerCase();
+    }
+
+    /*
+     * Reads the words of a word list file, where each line is a word. Hunspell dictionaries are expanded using the affix
+     * file with the same name, if it exists.
+     */
+    private async readWords(vault: Vault, fileName: string, fileNames: string[]): Promise<string[]> {
+        const data = await vault.adapter.read(fileName);
+        if (!fileName.endsWith(HUNSPELL_DICTIONARY_EXTENSION))
+            return data.split(NEW_LINE_REGEX);
+
+        const affixFileName = fileName.substring(0, fileName.length - HUNSPELL_DICTIONARY_EXTENSION.length) + HUNSPELL_AFFIX_EXTENSION;
+        let affixes: HunspellAffixes = null;
+        if (fileNames.contains(affixFileName))
+            affixes = parseAffixFile(await vault.adapter.read(affixFileName));
+        // Plain word lists are sometimes named .dic as well, only hunspell dictionaries start with the number of words
+        else if (!/^\s*\d+\s*$/.test(data.substring(0, data.search(NEW_LINE_REGEX))))
+            return data.split(NEW_LINE_REGEX);
+
+        const words = expandHunspellDictionary(data, affixes, MAX_HUNSPELL_WORDS);
+        if (words.length >= MAX_HUNSPELL_WORDS)
+            console.log("Completr: Only loaded the first " + MAX_HUNSPELL_WORDS + " words of " + fileName);
+
+        return words;
     }
 
     async deleteWordList(vault: Vault, path: string) {
@@ -89,3 +196,56 @@ class WordListSuggestionProvider extends DictionaryProvider {
 }
 
 export const WordList = new WordListSuggestionProvider();
+
+/**
+ * Returns the name which is used to refer to a word list in the settings.
+ */
+export function getWordListName(path: string): string {
+    return path.substring(path.lastIndexOf("/") + 1);
+}
+
+/*
+ * Languages match if they are equal or one of them is a more specific variant of the other, like "en" and "en-us".
+ */
+function languageMatches(a: string, b: string): boolean {
+    a = a.replace("_", "-");
+    b = b.replace("_", "-");
+    return a === b || a.startsWith(b + "-") || b.startsWith(a + "-");
+}
+
+/*
+ * Splits a line into its columns. Columns can be quoted using double quotes to contain the separator, two double quotes
+ * inside of a quoted column are a single double quote.
+ */
+function splitColumns(line: string, separator: string): string[] {
+    if (!line.includes(separator))
+        return [line];
+
+    const columns: string[] = [];
+    let column = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const c = line.charAt(i);
+        if (quoted) {
+            if (c === "\"" && line.charAt(i + 1) === "\"") {
+                column += c;
+                i++;
+            } else if (c === "\"") {
+                quoted = false;
+            } else {
+                column += c;
+            }
+        } else if (c === "\"" && column.trim() === "") {
+            quoted = true;
+            column = "";
+        } else if (c === separator) {
+            columns.push(column);
+            column = "";
+        } else {
+            column += c;
+        }
+    }
+
+    columns.push(column);
+    return columns;
+}
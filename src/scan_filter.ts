@@ -0,0 +1,116 @@
+import {CachedMetadata, MetadataCache, parseFrontMatterTags, TFile} from "obsidian";
+import {CompletrSettings} from "./settings";
+
+/**
+ * The block types of the metadata cache which can be chosen to be scanned.
+ */
+export const SCANNABLE_BLOCK_TYPES = [
+    "heading", "paragraph", "list", "blockquote", "callout", "table", "footnoteDefinition",
+    "code", "math", "yaml", "comment", "html"
+];
+
+/**
+ * Checks if the file scanner should ignore the given file. A file is ignored if include patterns exist and none of them
+ * matches it, if any exclude pattern matches it or if its front matter matches one of the excluded tags or properties.
+ */
+export function isExcludedFromScan(file: TFile, settings: CompletrSettings, metadataCache: MetadataCache): boolean {
+    const includePatterns = settings.fileScannerIncludePatterns;
+    if (includePatterns.length > 0 && !includePatterns.some(pattern => matchesGlob(file.path, pattern)))
+        return true;
+
+    if (settings.fileScannerExcludePatterns.some(pattern => matchesGlob(file.path, pattern)))
+        return true;
+
+    const frontMatter = metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontMatter)
+        return false;
+
+    return settings.fileScannerExcludeFrontMatter.some(rule => matchesFrontMatterRule(frontMatter, rule));
+}
+
+/**
+ * Returns the parts of a note which belong to the block types that should be scanned, based on the sections of the
+ * metadata cache. The whole note is returned if the sections are not available or outdated.
+ */
+export function extractScannedText(contents: string, cache: CachedMetadata | null, settings: CompletrSettings): string {
+    const sections = cache?.sections;
+    if (!sections || sections.length < 1 || sections[sections.length - 1].position.end.offset > contents.length)
+        return contents;
+
+    return sections
+        .filter(section => settings.fileScannerBlockTypes.contains(section.type))
+        .map(section => contents.substring(section.position.start.offset, section.position.end.offset))
+        .join("\n");
+}
+
+/**
+ * Matches a path relative to the vault root against a glob pattern.
+ * - `*` matches anything except `/`, `**` matches anything and `?` matches a single character
+ * - Patterns ending with `/` match everything inside of that folder, for example `Archive/`
+ * - Patterns without any `/` only match the file name, for example `*.excalidraw.md`
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+    pattern = pattern.trim();
+    if (!pattern)
+        return false;
+
+    if (pattern.endsWith("/"))
+        pattern += "**";
+    else if (!pattern.contains("/"))
+        path = path.substring(path.lastIndexOf("/") + 1);
+
+    return globToRegex(pattern).test(path);
+}
+
+function globToRegex(pattern: string): RegExp {
+    let regex = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern.charAt(i);
+        if (c === "*" && pattern.charAt(i + 1) === "*") {
+            i++;
+            // "**/" matches any number of whole folders, including none
+            if (pattern.charAt(i + 1) === "/") {
+                regex += "(?:.*/)?";
+                i++;
+            } else {
+                regex += ".*";
+            }
+        } else if (c === "*") {
+            regex += "[^/]*";
+        } else if (c === "?") {
+            regex += "[^/]";
+        } else {
+            regex += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+
+    return new RegExp("^" + regex + "$", "i");
+}
+
+/*
+ * Rules are either a tag like `#archive`, which also matches nested tags, a property like `completr: ignore` or just
+ * the name of a property which has to exist.
+ */
+function matchesFrontMatterRule(frontMatter: any, rule: string): boolean {
+    rule = rule.trim();
+    if (!rule)
+        return false;
+
+    if (rule.startsWith("#")) {
+        const tag = rule.toLowerCase();
+        return (parseFrontMatterTags(frontMatter) ?? [])
+            .some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + "/"));
+    }
+
+    const separatorIndex = rule.indexOf(":");
+    const key = separatorIndex === -1 ? rule : rule.substring(0, separatorIndex).trim();
+    const value = frontMatter[key];
+    if (value === undefined || value === null)
+        return false;
+    if (separatorIndex === -1)
+        return true;
+
+    const expected = rule.substring(separatorIndex + 1).trim().toLowerCase();
+    const values: any[] = Array.isArray(value) ? value : [value];
+    return values.some(v => (v + "").toLowerCase() === expected);
+}
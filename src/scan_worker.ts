@@ -0,0 +1,178 @@
+export interface TokenizerOptions {
+    /**
+     * The content of the character class which matches the characters of a word.
+     */
+    characterRegex: string,
+    minWordLength: number,
+    /**
+     * Splits words further using Intl.Segmenter, for scripts which don't separate words with spaces.
+     */
+    segmentWords: boolean,
+    /**
+     * The maximum number of consecutive words which are counted as a phrase. Phrases are not counted if this is below 2.
+     */
+    maxPhraseLength: number,
+}
+
+export interface TokenizedText {
+    words: Map<string, number>,
+    /**
+     * Runs of words which are only separated by spaces, joined with a single space.
+     */
+    phrases: Map<string, number>,
+}
+
+interface TokenizeResult {
+    words: [string, number][],
+    phrases: [string, number][],
+}
+
+/**
+ * Counts the words and phrases in the given text, skipping LaTeX, code, links, urls, data uris and comments. This
+ * function is also sent to the worker as source code, which means that it must not use anything outside of itself.
+ */
+function tokenizeWords(contents: string, options: TokenizerOptions): TokenizeResult {
+    const counts = new Map<string, number>();
+    const phraseCounts = new Map<string, number>();
+    const regex = new RegExp("\\$+.*?\\$+|`+.*?`+|\\[+.*?\\]+|https?:\\/\\/[^\\n\\s]+|data:[^\\n\\s)]+|%%.*?%%|<!--.*?-->|([" + options.characterRegex + "]+)", "gsu");
+    const Segmenter = (Intl as any).Segmenter;
+    const segmenter = options.segmentWords && Segmenter ? new Segmenter(undefined, {granularity: "word"}) : null;
+
+    //The start and end offsets of the previous words which can still be part of a phrase
+    let chain: number[][] = [];
+    const addWord = (word: string, start: number) => {
+        if (word.length >= options.minWordLength)
+            counts.set(word, (counts.get(word) || 0) + 1);
+        if (options.maxPhraseLength < 2)
+            return;
+
+        const end = start + word.length;
+        if (chain.length > 0 && !/^[ \t]*$/.test(contents.substring(chain[chain.length - 1][1], start)))
+            chain = [];
+
+        chain.push([start, end]);
+        if (chain.length > options.maxPhraseLength)
+            chain.shift();
+
+        for (let i = chain.length - 2; i >= 0; i--) {
+            const phrase = contents.substring(chain[i][0], end).replace(/[ \t]+/g, " ");
+            phraseCounts.set(phrase, (phraseCounts.get(phrase) || 0) + 1);
+        }
+    };
+
+    let match;
+    while ((match = regex.exec(contents)) !== null) {
+        const word = match[1];
+        if (!word) {
+            chain = [];
+            continue;
+        }
+
+        if (!segmenter) {
+            addWord(word, match.index);
+            continue;
+        }
+
+        for (let segment of segmenter.segment(word)) {
+            if (segment.isWordLike)
+                addWord(segment.segment, match.index + segment.index);
+            else
+                chain = [];
+        }
+    }
+
+    return {words: Array.from(counts.entries()), phrases: Array.from(phraseCounts.entries())};
+}
+
+interface TokenizeRequest {
+    id: number,
+    contents: string,
+    options: TokenizerOptions,
+}
+
+interface TokenizeResponse {
+    id: number,
+    result?: TokenizeResult,
+    error?: string,
+}
+
+/*
+ * The entry point of the worker. Like tokenizeWords, it can't use anything outside of itself.
+ */
+function workerMain(tokenize: typeof tokenizeWords) {
+    self.onmessage = (event: MessageEvent<TokenizeRequest>) => {
+        const {id, contents, options} = event.data;
+        try {
+            (self as any).postMessage({id, result: tokenize(contents, options)});
+        } catch (e) {
+            (self as any).postMessage({id, error: e.message});
+        }
+    };
+}
+
+/**
+ * Tokenizes files in a web worker to keep the UI responsive while scanning many files. Falls back to tokenizing on the
+ * main thread if workers are not available.
+ */
+export class ScanWorker {
+    private worker: Worker = null;
+    private workerUrl: string = null;
+    private nextId = 0;
+    private readonly pending = new Map<number, { resolve: (text: TokenizedText) => void, reject: (e: Error) => void }>();
+
+    constructor() {
+        try {
+            const source = `(${workerMain.toString()})(${tokenizeWords.toString()});`;
+            this.workerUrl = URL.createObjectURL(new Blob([source], {type: "text/javascript"}));
+            this.worker = new Worker(this.workerUrl);
+            this.worker.onmessage = (event: MessageEvent<TokenizeResponse>) => this.onResponse(event.data);
+        } catch (e) {
+            console.log("Completr: Unable to start scan worker, scanning on the main thread instead", e);
+            this.terminate();
+        }
+    }
+
+    tokenize(contents: string, options: TokenizerOptions): Promise<TokenizedText> {
+        if (!this.worker)
+            return Promise.resolve(toTokenizedText(tokenizeWords(contents, options)));
+
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, {resolve, reject});
+            const request: TokenizeRequest = {id, contents, options};
+            this.worker.postMessage(request);
+        });
+    }
+
+    terminate() {
+        this.worker?.terminate();
+        this.worker = null;
+        if (this.workerUrl)
+            URL.revokeObjectURL(this.workerUrl);
+        this.workerUrl = null;
+
+        for (let {reject} of this.pending.values())
+            reject(new Error("Scan worker was terminated"));
+        this.pending.clear();
+    }
+
+    private onResponse(response: TokenizeResponse) {
+        const request = this.pending.get(response.id);
+        if (!request)
+            return;
+
+        this.pending.delete(response.id);
+        if (response.error !== undefined)
+            request.reject(new Error(response.error));
+        else
+            request.resolve(toTokenizedText(response.result));
+    }
+}
+
+export function tokenizeText(contents: string, options: TokenizerOptions): TokenizedText {
+    return toTokenizedText(tokenizeWords(contents, options));
+}
+
+function toTokenizedText(result: TokenizeResult): TokenizedText {
+    return {words: new Map(result.words), phrases: new Map(result.phrases)};
+}
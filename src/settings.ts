@@ -6,44 +6,114 @@ export const enum WordInsertionMode {
     IGNORE_CASE_APPEND = "Ignore-Case & Append"
 }
 
+export const enum WordRankingStrategy {
+    LENGTH = "Length",
+    FREQUENCY = "Frequency"
+}
+
+export const enum WordSegmentation {
+    CHARACTER_REGEX = "Character regex",
+    UNICODE = "Unicode"
+}
+
+export const enum NextWordPrediction {
+    OFF = "Off",
+    ON_COMMAND = "On command",
+    AUTOMATIC = "Automatic"
+}
+
 export interface CompletrSettings {
     characterRegex: string,
+    wordSegmentation: WordSegmentation,
     maxLookBackDistance: number,
+    maxSuggestions: number,
     minWordLength: number,
     minWordTriggerLength: number,
     wordInsertionMode: WordInsertionMode,
     ignoreDiacriticsWhenFiltering: boolean,
+    wordRankingStrategy: WordRankingStrategy,
+    fuzzyMatching: boolean,
+    usageLearningEnabled: boolean,
     latexProviderEnabled: boolean,
     latexTriggerInCodeBlocks: boolean,
     latexMinWordTriggerLength: number,
     latexIgnoreCase: boolean,
     fileScannerProviderEnabled: boolean,
     fileScannerScanCurrent: boolean,
+    fileScannerScanOnStartup: boolean,
+    fileScannerIncludePatterns: string[],
+    fileScannerExcludePatterns: string[],
+    fileScannerExcludeFrontMatter: string[],
+    fileScannerBlockTypes: string[],
+    fileScannerPhrasesEnabled: boolean,
+    fileScannerMinPhraseOccurrences: number,
+    fileScannerNextWordPrediction: NextWordPrediction,
     wordListProviderEnabled: boolean,
+    disabledWordLists: string[],
+    /**
+     * Maps the names of word lists to their language.
+     */
+    wordListLanguages: Record<string, string>,
+    wordListLanguageProperty: string,
+    wordListLanguageFolders: string[],
+    wordListDefaultLanguage: string,
     frontMatterProviderEnabled: boolean,
     frontMatterTagAppendSuffix: boolean,
     frontMatterIgnoreCase: boolean,
     calloutProviderEnabled: boolean,
+    linkProviderEnabled: boolean,
+    tagProviderEnabled: boolean,
+    snippetProviderEnabled: boolean,
+    disabledProviders: string[],
 }
 
 export const DEFAULT_SETTINGS: CompletrSettings = {
     characterRegex: "a-zA-ZöäüÖÄÜß",
+    wordSegmentation: WordSegmentation.CHARACTER_REGEX,
     maxLookBackDistance: 50,
+    maxSuggestions: 50,
     minWordLength: 2,
     minWordTriggerLength: 3,
     wordInsertionMode: WordInsertionMode.IGNORE_CASE_REPLACE,
     ignoreDiacriticsWhenFiltering: false,
+    wordRankingStrategy: WordRankingStrategy.FREQUENCY,
+    fuzzyMatching: true,
+    usageLearningEnabled: true,
     latexProviderEnabled: true,
     latexTriggerInCodeBlocks: true,
     latexMinWordTriggerLength: 2,
     latexIgnoreCase: false,
     fileScannerProviderEnabled: true,
     fileScannerScanCurrent: true,
+    fileScannerScanOnStartup: false,
+    fileScannerIncludePatterns: [],
+    fileScannerExcludePatterns: [],
+    fileScannerExcludeFrontMatter: ["completr: ignore"],
+    fileScannerBlockTypes: ["heading", "paragraph", "list", "blockquote", "callout", "table", "footnoteDefinition"],
+    fileScannerPhrasesEnabled: false,
+    fileScannerMinPhraseOccurrences: 3,
+    fileScannerNextWordPrediction: NextWordPrediction.OFF,
     wordListProviderEnabled: true,
+    disabledWordLists: [],
+    wordListLanguages: {},
+    wordListLanguageProperty: "lang",
+    wordListLanguageFolders: [],
+    wordListDefaultLanguage: "",
     frontMatterProviderEnabled: true,
     frontMatterTagAppendSuffix: true,
     frontMatterIgnoreCase: true,
     calloutProviderEnabled: true,
+    linkProviderEnabled: true,
+    tagProviderEnabled: true,
+    snippetProviderEnabled: true,
+    disabledProviders: [],
+}
+
+/**
+ * Returns the content of the character class which matches the characters of a word.
+ */
+export function getWordCharacters(settings: CompletrSettings): string {
+    return settings.wordSegmentation === WordSegmentation.UNICODE ? "\\p{L}\\p{M}" : settings.characterRegex;
 }
 
 export function intoCompletrPath(vault: Vault, ...path: string[]): string {
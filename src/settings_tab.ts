@@ -1,10 +1,24 @@
 import {App, ButtonComponent, Modal, Notice, PluginSettingTab, Setting} from "obsidian";
 import CompletrPlugin from "./main";
 import {FileScanner} from "./provider/scanner_provider";
-import {WordList} from "./provider/word_list_provider";
-import {CompletrSettings, WordInsertionMode} from "./settings";
+import {getWordListName, WordList} from "./provider/word_list_provider";
+import {
+    CompletrSettings,
+    NextWordPrediction,
+    WordInsertionMode,
+    WordRankingStrategy,
+    WordSegmentation
+} from "./settings";
 import {TextDecoder} from "util";
 import {detect} from "jschardet";
+import {SuggestionProviderRegistry} from "./provider/provider_registry";
+import {SuggestionUsage} from "./provider/suggestion_usage";
+import {SCANNABLE_BLOCK_TYPES} from "./scan_filter";
+
+/**
+ * The settings which contain a list of strings, edited as one entry per line.
+ */
+type ListSettingKey = { [K in keyof CompletrSettings]: CompletrSettings[K] extends string[] ? K : never }[keyof CompletrSettings];
 
 export default class CompletrSettingsTab extends PluginSettingTab {
 
@@ -38,6 +52,20 @@ export default class CompletrSettingsTab extends PluginSettingTab {
                     }
                 }));
 
+        new Setting(containerEl)
+            .setName("Word segmentation")
+            .setDesc("How words are found. Unicode finds words in any language, including languages like Chinese, Japanese and Thai " +
+                "which don't separate words with spaces. The word character regex is ignored in this mode.")
+            .addDropdown(dropdown => dropdown
+                .addOption(WordSegmentation.CHARACTER_REGEX, WordSegmentation.CHARACTER_REGEX)
+                .addOption(WordSegmentation.UNICODE, WordSegmentation.UNICODE)
+                .setValue(this.plugin.settings.wordSegmentation)
+                .onChange(async val => {
+                    this.plugin.settings.wordSegmentation = val as WordSegmentation;
+                    await this.plugin.saveSettings();
+                })
+            );
+
         new Setting(containerEl)
             .setName("Minimum word length")
             .setDesc("The minimum length a word has to be, to count as a valid suggestion. This value is used by the file" +
@@ -71,6 +99,22 @@ export default class CompletrSettingsTab extends PluginSettingTab {
                     });
             });
 
+        new Setting(containerEl)
+            .setName("Suggestion limit")
+            .setDesc("How many suggestions are shown at once. More suggestions are loaded when scrolling to the end of the popup.")
+            .addText(text => {
+                text.inputEl.type = "number";
+                text
+                    .setValue(this.plugin.settings.maxSuggestions + "")
+                    .onChange(async val => {
+                        if (!val || val.length < 1 || parseInt(val) < 1)
+                            return;
+
+                        this.plugin.settings.maxSuggestions = parseInt(val);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
         new Setting(containerEl)
             .setName("Word insertion mode")
             .setDesc("The insertion mode that is used. Ignore-case would suggest 'Hello' if the typed text is 'hello', match-case would not. " +
@@ -96,6 +140,62 @@ export default class CompletrSettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName("Word ranking")
+            .setDesc("How words which match equally well are ranked. Frequency ranks the words you use more often or which have a higher frequency in their word list first and " +
+                "shorter words if they are used equally often, length only ranks shorter words first. Only used by the file scanner and word list provider.")
+            .addDropdown(dropdown => dropdown
+                .addOption(WordRankingStrategy.FREQUENCY, WordRankingStrategy.FREQUENCY)
+                .addOption(WordRankingStrategy.LENGTH, WordRankingStrategy.LENGTH)
+                .setValue(this.plugin.settings.wordRankingStrategy)
+                .onChange(async val => {
+                    this.plugin.settings.wordRankingStrategy = val as WordRankingStrategy;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName("Fuzzy matching")
+            .setDesc("When enabled, the query 'hlo' can suggest 'hello' and 'gBR' can suggest 'getBusinessReview'. Small typos like 'hlelo' are tolerated as well. Exact and prefix matches are always ranked first.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.fuzzyMatching)
+                .onChange(async val => {
+                    this.plugin.settings.fuzzyMatching = val;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Learn from accepted suggestions")
+            .setDesc("When enabled, suggestions which you accept often or recently are ranked higher. The data is stored in the suggestion_usage.json file in the plugin folder.")
+            .addExtraButton(button => button
+                .setIcon("documents")
+                .setTooltip("Copy the learned data to the clipboard.")
+                .onClick(async () => {
+                    await navigator.clipboard.writeText(SuggestionUsage.export());
+                    new Notice("Copied the learned data to the clipboard");
+                }))
+            .addExtraButton(button => button
+                .setIcon("trash")
+                .setTooltip("Forget all accepted suggestions.")
+                .onClick(() => {
+                    new ConfirmationModal(this.plugin.app,
+                        "Reset learned data?",
+                        "All suggestions will be ranked as if they were never accepted before.",
+                        button => button
+                            .setButtonText("Reset")
+                            .setWarning(),
+                        async () => {
+                            await SuggestionUsage.reset(this.plugin.app.vault);
+                        },
+                    ).open();
+                }))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.usageLearningEnabled)
+                .onChange(async val => {
+                    this.plugin.settings.usageLearningEnabled = val;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName("Latex provider")
             .setHeading();
@@ -182,7 +282,7 @@ export default class CompletrSettingsTab extends PluginSettingTab {
                             .setButtonText("Scan")
                             .setCta(),
                         async () => {
-                            await FileScanner.scanFiles(this.plugin.settings, this.plugin.app.vault.getMarkdownFiles());
+                            await this.plugin.scanVault();
                         },
                     ).open();
                 }))
@@ -214,15 +314,107 @@ export default class CompletrSettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName("Scan vault on startup")
+            .setDesc("If this setting is enabled, all files of your vault will be scanned in the background after Obsidian has started. " +
+                "This keeps the known words up to date with changes made outside of Obsidian.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.fileScannerScanOnStartup)
+                .onChange(async val => {
+                    this.plugin.settings.fileScannerScanOnStartup = val;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.createListSetting("fileScannerIncludePatterns", "Included files",
+            "Only files matching one of these patterns are scanned. All files are scanned if this is empty. One glob pattern per line, " +
+            "for example 'Notes/' for a folder or '*.md' for file names.", containerEl);
+        this.createListSetting("fileScannerExcludePatterns", "Excluded files",
+            "Files matching one of these patterns are never scanned. One glob pattern per line, for example 'Archive/' or 'Templates/'.", containerEl);
+        this.createListSetting("fileScannerExcludeFrontMatter", "Excluded by front matter",
+            "Files with one of these tags or properties in their front matter are never scanned. One per line, for example '#clipping' or 'completr: ignore'.", containerEl);
+        this.createListSetting("fileScannerBlockTypes", "Scanned block types",
+            "Only words in these kinds of blocks are scanned. One per line, available types are: " + SCANNABLE_BLOCK_TYPES.join(", ") + ".", containerEl);
+
+        new Setting(containerEl)
+            .setName("Suggest phrases")
+            .setDesc("If this setting is enabled, the scanner also learns phrases of 2 to 5 words which are repeated in your notes, " +
+                "like 'Quarterly Business Review', and suggests them when you type the start of the phrase. Rescan your vault after enabling this.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.fileScannerPhrasesEnabled)
+                .onChange(async val => {
+                    this.plugin.settings.fileScannerPhrasesEnabled = val;
+                    FileScanner.applyPhraseSettings(this.plugin.settings);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Minimum phrase occurrences")
+            .setDesc("How often a phrase has to appear in your vault before it is suggested.")
+            .addText(text => {
+                text.inputEl.type = "number";
+                text
+                    .setValue(this.plugin.settings.fileScannerMinPhraseOccurrences + "")
+                    .onChange(async val => {
+                        if (!val || val.length < 1 || parseInt(val) < 1)
+                            return;
+
+                        this.plugin.settings.fileScannerMinPhraseOccurrences = parseInt(val);
+                        FileScanner.applyPhraseSettings(this.plugin.settings);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Next word prediction")
+            .setDesc("Suggests the words which most often followed the previous words in your notes, after typing a space. " +
+                "'On command' only predicts words when the popup is opened using the 'Open suggestion popup' command, 'Automatic' opens the popup after every space. " +
+                "Rescan your vault after enabling this.")
+            .addDropdown(dropdown => dropdown
+                .addOption(NextWordPrediction.OFF, NextWordPrediction.OFF)
+                .addOption(NextWordPrediction.ON_COMMAND, NextWordPrediction.ON_COMMAND)
+                .addOption(NextWordPrediction.AUTOMATIC, NextWordPrediction.AUTOMATIC)
+                .setValue(this.plugin.settings.fileScannerNextWordPrediction)
+                .onChange(async val => {
+                    this.plugin.settings.fileScannerNextWordPrediction = val as NextWordPrediction;
+                    await this.plugin.saveSettings();
+                })
+            );
+
         new Setting(containerEl)
             .setName("Word list provider")
             .setHeading();
 
         this.createEnabledSetting("wordListProviderEnabled", "Whether or not the word list provider is enabled", containerEl);
 
+        new Setting(containerEl)
+            .setName("Language property")
+            .setDesc("The front matter property which contains the language of a note, for example 'lang: de'. " +
+                "Word lists with a language are only used in notes with the same language, word lists without a language are always used.")
+            .addText(text => text
+                .setValue(this.plugin.settings.wordListLanguageProperty)
+                .onChange(async val => {
+                    this.plugin.settings.wordListLanguageProperty = val.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        this.createListSetting("wordListLanguageFolders", "Language folders",
+            "The language of notes without the language property, based on their folder. One rule per line, for example 'German/: de'.", containerEl);
+
+        new Setting(containerEl)
+            .setName("Default language")
+            .setDesc("The language of notes which neither have the language property nor match a folder rule. " +
+                "If this is empty, all word lists are used in these notes.")
+            .addText(text => text
+                .setValue(this.plugin.settings.wordListDefaultLanguage)
+                .onChange(async val => {
+                    this.plugin.settings.wordListDefaultLanguage = val.trim();
+                    await this.plugin.saveSettings();
+                }));
+
         const fileInput = createEl("input", {
             attr: {
                 type: "file",
+                multiple: true,
             }
         });
 
@@ -260,7 +452,9 @@ export default class CompletrSettingsTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('Word list files')
-            .setDesc('A list of files which contain words to be used as suggestions. Each word should be on its own line.')
+            .setDesc('A list of files which contain words to be used as suggestions. Each word should be on its own line. ' +
+                'Hunspell dictionaries can be imported by selecting both their .dic and .aff file. ' +
+                'The word can be followed by its frequency and a description, separated by tabs or by commas in .csv files.')
             .addExtraButton(button => button
                 .setIcon("switch")
                 .setTooltip("Reload")
@@ -280,8 +474,33 @@ export default class CompletrSettingsTab extends PluginSettingTab {
         const wordListDiv = containerEl.createDiv();
         WordList.getRelativeFilePaths(this.app.vault).then((names) => {
             for (const name of names) {
-                new Setting(wordListDiv)
-                    .setName(name)
+                const listName = getWordListName(name);
+                const setting = new Setting(wordListDiv).setName(name);
+                // Affix files only belong to their dictionary
+                if (!name.endsWith(".aff")) {
+                    setting
+                        .addText(text => text
+                            .setPlaceholder("Language")
+                            .setValue(this.plugin.settings.wordListLanguages[listName] ?? "")
+                            .onChange(async val => {
+                                this.setWordListLanguage(listName, val.trim());
+                                await this.plugin.saveSettings();
+                            }))
+                        .addToggle(toggle => toggle
+                            .setTooltip("Enabled")
+                            .setValue(!this.plugin.settings.disabledWordLists.contains(listName))
+                            .onChange(async val => {
+                                const disabled = this.plugin.settings.disabledWordLists.filter(n => n !== listName);
+                                if (!val)
+                                    disabled.push(listName);
+
+                                this.plugin.settings.disabledWordLists = disabled;
+                                await this.plugin.saveSettings();
+                                await this.reloadWords();
+                            }));
+                }
+
+                setting
                     .addExtraButton((button) => button
                         .setIcon("trash")
                         .setTooltip("Remove")
@@ -295,6 +514,9 @@ export default class CompletrSettingsTab extends PluginSettingTab {
                                     .setWarning(),
                                 async () => {
                                     await WordList.deleteWordList(this.app.vault, name);
+                                    this.plugin.settings.disabledWordLists = this.plugin.settings.disabledWordLists.filter(n => n !== listName);
+                                    this.setWordListLanguage(listName, "");
+                                    await this.plugin.saveSettings();
                                     await this.reloadWords();
                                     this.display();
                                 }).open();
@@ -308,6 +530,46 @@ export default class CompletrSettingsTab extends PluginSettingTab {
             .setHeading();
 
         this.createEnabledSetting("calloutProviderEnabled", "Whether or not the callout provider is enabled", containerEl);
+
+        new Setting(containerEl)
+            .setName("Link provider")
+            .setHeading();
+
+        this.createEnabledSetting("linkProviderEnabled", "Whether or not the link provider is enabled. Suggests notes, aliases, headings and block ids after typing [[, ![[ or ](.", containerEl);
+
+        new Setting(containerEl)
+            .setName("Tag provider")
+            .setHeading();
+
+        this.createEnabledSetting("tagProviderEnabled", "Whether or not the tag provider is enabled. Suggests the tags of your vault after typing # in the body of a note.", containerEl);
+
+        new Setting(containerEl)
+            .setName("Snippet provider")
+            .setHeading();
+
+        this.createEnabledSetting("snippetProviderEnabled", "Whether or not the snippet provider is enabled. Suggests the snippets defined in the files of the snippets folder.", containerEl);
+
+        new Setting(containerEl)
+            .setName("Other providers")
+            .setDesc("Providers which were registered by other plugins.")
+            .setHeading();
+
+        const registrations = SuggestionProviderRegistry.getRegistrations().filter(r => !r.builtIn);
+        for (const registration of registrations) {
+            new Setting(containerEl)
+                .setName(registration.name)
+                .setDesc(`Id: ${registration.id}, priority: ${registration.priority}`)
+                .addToggle(toggle => toggle
+                    .setValue(!this.plugin.settings.disabledProviders.contains(registration.id))
+                    .onChange(async val => {
+                        const disabled = this.plugin.settings.disabledProviders.filter(id => id !== registration.id);
+                        if (!val)
+                            disabled.push(registration.id);
+
+                        this.plugin.settings.disabledProviders = disabled;
+                        await this.plugin.saveSettings();
+                    }));
+        }
     }
 
     private async reloadWords() {
@@ -321,6 +583,31 @@ export default class CompletrSettingsTab extends PluginSettingTab {
         new Notice(`Loaded ${count} words`);
     }
 
+    /*
+     * Replaces the languages instead of changing them, so that the default settings are never modified.
+     */
+    private setWordListLanguage(listName: string, language: string) {
+        const languages = {...this.plugin.settings.wordListLanguages};
+        if (language)
+            languages[listName] = language;
+        else
+            delete languages[listName];
+
+        this.plugin.settings.wordListLanguages = languages;
+    }
+
+    private createListSetting(propertyName: ListSettingKey, name: string, desc: string, container: HTMLElement) {
+        new Setting(container)
+            .setName(name)
+            .setDesc(desc)
+            .addTextArea(text => text
+                .setValue(this.plugin.settings[propertyName].join("\n"))
+                .onChange(async val => {
+                    this.plugin.settings[propertyName] = val.split("\n").map(line => line.trim()).filter(line => line.length > 0);
+                    await this.plugin.saveSettings();
+                }));
+    }
+
     private createEnabledSetting(propertyName: keyof CompletrSettings, desc: string, container: HTMLElement) {
         new Setting(container)
             .setName("Enabled")
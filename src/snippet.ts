@@ -0,0 +1,309 @@
+/*
+ * Snippets use a small subset of the TextMate/VS Code syntax:
+ * - `$1`, `$2`, ... are tabstops, `$0` is the final cursor position
+ * - `${1:default}` is a tabstop with a default text, which can contain further tabstops
+ * - `${1|a,b,c|}` is a tabstop which offers a choice between the given values, the first one is inserted by default
+ * - Using the same number multiple times creates mirrored placeholders, which always contain the same text
+ * - `${NAME}` and `${NAME:argument}` are variables, which are resolved when the snippet is inserted
+ * - `\$`, `\#` and `\~` insert the literal character, `\}` does the same inside a default text and `\,` and `\|`
+ *   inside a choice
+ *
+ * Snippets which don't use any of the tabstop or variable syntax are parsed using the legacy syntax, where each `#` is a
+ * placeholder and `~` is the final cursor position. Backslashes are inserted as they are, as latex commands contain lots
+ * of them. This keeps existing latex_commands.json and callout files working.
+ */
+
+const TABSTOP_SYNTAX_REGEX = /\$(\d|\{\d|\{[A-Z][A-Z_]*[:}])/;
+const ESCAPABLE_CHARS = "$#~";
+
+export interface TextNode {
+    type: "text",
+    value: string,
+}
+
+export interface TabstopNode {
+    type: "tabstop",
+    index: number,
+    children: SnippetNode[],
+    /**
+     * The values which can be chosen for this tabstop, if it is a choice.
+     */
+    choices?: string[],
+}
+
+export interface VariableNode {
+    type: "variable",
+    name: string,
+    argument: string | null,
+    /**
+     * The text of the variable in the snippet, which is inserted if the variable can't be resolved.
+     */
+    raw: string,
+}
+
+export type SnippetNode = TextNode | TabstopNode | VariableNode;
+
+export interface RenderedTabstop {
+    index: number,
+    /**
+     * The start offset inside the rendered text.
+     */
+    from: number,
+    /**
+     * The end offset inside the rendered text.
+     */
+    to: number,
+    /**
+     * Mirrors are not visited when navigating, they are kept in sync with the first tabstop of the same index.
+     */
+    isMirror: boolean,
+    choices?: string[],
+}
+
+export interface RenderedSnippet {
+    text: string,
+    tabstops: RenderedTabstop[],
+}
+
+export class Snippet {
+
+    constructor(public readonly nodes: SnippetNode[]) {
+    }
+
+    static parse(text: string): Snippet {
+        const parser = new SnippetParser(text, !TABSTOP_SYNTAX_REGEX.test(text));
+        return new Snippet(parser.parse());
+    }
+
+    get hasTabstops(): boolean {
+        return containsTabstop(this.nodes);
+    }
+
+    get variables(): VariableNode[] {
+        const result: VariableNode[] = [];
+        forEachNode(this.nodes, node => {
+            if (node.type === "variable")
+                result.push(node);
+        });
+        return result;
+    }
+
+    /**
+     * Returns a copy of this snippet where each variable is replaced by its value. Variables for which the resolver
+     * returns null are kept.
+     */
+    resolveVariables(resolver: (variable: VariableNode) => string | null): Snippet {
+        const resolve = (nodes: SnippetNode[]): SnippetNode[] => nodes.map(node => {
+            if (node.type === "tabstop")
+                return {...node, children: resolve(node.children)};
+            if (node.type !== "variable")
+                return node;
+
+            const value = resolver(node);
+            return value === null ? node : {type: "text", value};
+        });
+
+        return new Snippet(resolve(this.nodes));
+    }
+
+    render(): RenderedSnippet {
+        // The first tabstop of each index which has a default text defines the text of all of its mirrors
+        const primaries = new Map<number, TabstopNode>();
+        forEachTabstop(this.nodes, node => {
+            const primary = primaries.get(node.index);
+            if (!primary || (primary.children.length < 1 && node.children.length > 0))
+                primaries.set(node.index, node);
+        });
+
+        let text = "";
+        const tabstops: RenderedTabstop[] = [];
+        const visit = (nodes: SnippetNode[]) => {
+            for (let node of nodes) {
+                if (node.type !== "tabstop") {
+                    text += renderPlainText([node]);
+                    continue;
+                }
+
+                const from = text.length;
+                const primary = primaries.get(node.index);
+                if (primary === node)
+                    visit(node.children);
+                else
+                    text += renderPlainText(primary.children);
+
+                tabstops.push({
+                    index: node.index,
+                    from,
+                    to: text.length,
+                    isMirror: primary !== node,
+                    choices: primary === node ? node.choices : undefined,
+                });
+            }
+        };
+        visit(this.nodes);
+
+        return {text, tabstops};
+    }
+}
+
+class SnippetParser {
+    private pos = 0;
+    private legacyIndex = 1;
+
+    constructor(private readonly text: string, private readonly legacy: boolean) {
+    }
+
+    parse(): SnippetNode[] {
+        return this.parseNodes(false);
+    }
+
+    private parseNodes(insidePlaceholder: boolean): SnippetNode[] {
+        const nodes: SnippetNode[] = [];
+        let currentText = "";
+        const flushText = () => {
+            if (currentText)
+                nodes.push({type: "text", value: currentText});
+            currentText = "";
+        };
+
+        while (this.pos < this.text.length) {
+            const c = this.text.charAt(this.pos);
+
+            if (c === "\\" && !this.legacy) {
+                const next = this.text.charAt(this.pos + 1);
+                if (ESCAPABLE_CHARS.contains(next) || (insidePlaceholder && next === "}")) {
+                    currentText += next;
+                    this.pos += 2;
+                    continue;
+                }
+            } else if (insidePlaceholder && c === "}") {
+                break;
+            } else if (this.legacy && (c === "#" || c === "~")) {
+                flushText();
+                nodes.push({type: "tabstop", index: c === "~" ? 0 : this.legacyIndex++, children: []});
+                this.pos++;
+                continue;
+            } else if (!this.legacy && c === "$") {
+                const node = this.parseTabstop() ?? this.parseVariable();
+                if (node) {
+                    flushText();
+                    nodes.push(node);
+                    continue;
+                }
+            }
+
+            currentText += c;
+            this.pos++;
+        }
+
+        flushText();
+        return nodes;
+    }
+
+    /*
+     * Parses `$1`, `${1:default}` or `${1|a,b|}`. Returns null without consuming anything if there's no tabstop at the current
+     * position.
+     */
+    private parseTabstop(): TabstopNode | null {
+        const simple = /^\$(\d+)/.exec(this.text.substring(this.pos));
+        if (simple) {
+            this.pos += simple[0].length;
+            return {type: "tabstop", index: parseInt(simple[1]), children: []};
+        }
+
+        const choice = /^\$\{(\d+)\|/.exec(this.text.substring(this.pos));
+        if (choice)
+            return this.parseChoice(choice);
+
+        const placeholder = /^\$\{(\d+)(:|})/.exec(this.text.substring(this.pos));
+        if (!placeholder)
+            return null;
+
+        const start = this.pos;
+        this.pos += placeholder[0].length;
+        const index = parseInt(placeholder[1]);
+        if (placeholder[2] === "}")
+            return {type: "tabstop", index, children: []};
+
+        const children = this.parseNodes(true);
+        if (this.text.charAt(this.pos) !== "}") {
+            // Unterminated placeholder, treat it as text
+            this.pos = start;
+            return null;
+        }
+
+        this.pos++;
+        return {type: "tabstop", index, children};
+    }
+
+    /*
+     * Parses `${NAME}` or `${NAME:argument}`, where `\}` can be used inside the argument.
+     */
+    private parseVariable(): VariableNode | null {
+        const variable = /^\$\{([A-Z][A-Z_]*)(?::((?:\\}|[^}])*))?}/.exec(this.text.substring(this.pos));
+        if (!variable)
+            return null;
+
+        this.pos += variable[0].length;
+        return {
+            type: "variable",
+            name: variable[1],
+            argument: variable[2]?.replace(/\\}/g, "}") ?? null,
+            raw: variable[0],
+        };
+    }
+
+    private parseChoice(match: RegExpExecArray): TabstopNode | null {
+        const choices: string[] = [];
+        let current = "";
+        for (let pos = this.pos + match[0].length; pos < this.text.length; pos++) {
+            const c = this.text.charAt(pos);
+            if (c === "\\" && ",|\\".contains(this.text.charAt(pos + 1))) {
+                current += this.text.charAt(++pos);
+            } else if (c === ",") {
+                choices.push(current);
+                current = "";
+            } else if (c === "|" && this.text.charAt(pos + 1) === "}") {
+                choices.push(current);
+                this.pos = pos + 2;
+
+                const children: SnippetNode[] = choices[0] ? [{type: "text", value: choices[0]}] : [];
+                return {type: "tabstop", index: parseInt(match[1]), children, choices};
+            } else {
+                current += c;
+            }
+        }
+
+        // Unterminated choice, treat it as text
+        return null;
+    }
+}
+
+function containsTabstop(nodes: SnippetNode[]): boolean {
+    return nodes.some(node => node.type === "tabstop");
+}
+
+function forEachTabstop(nodes: SnippetNode[], callback: (node: TabstopNode) => void) {
+    forEachNode(nodes, node => {
+        if (node.type === "tabstop")
+            callback(node);
+    });
+}
+
+function forEachNode(nodes: SnippetNode[], callback: (node: SnippetNode) => void) {
+    for (let node of nodes) {
+        callback(node);
+        if (node.type === "tabstop")
+            forEachNode(node.children, callback);
+    }
+}
+
+function renderPlainText(nodes: SnippetNode[]): string {
+    return nodes.map(node => {
+        if (node.type === "text")
+            return node.value;
+        if (node.type === "variable")
+            return node.raw;
+        return renderPlainText(node.children);
+    }).join("");
+}
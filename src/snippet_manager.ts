@@ -1,123 +1,244 @@
 import {Editor, EditorPosition} from "obsidian";
-import {Decoration} from "@codemirror/view";
 import {editorToCodeMirrorState, editorToCodeMirrorView, indexFromPos, posFromIndex} from "./editor_helpers";
-import {addMark, clearMarks, markerStateField, removeMarkBySpecAttribute} from "./marker_state_field";
-import {Range} from "@codemirror/state";
+import {addMark, clearMarks, Marker, markerStateField, removeMarksByReference} from "./marker_state_field";
+import {RenderedSnippet, RenderedTabstop} from "./snippet";
+import {StateEffect} from "@codemirror/state";
+import SuggestionPopup from "./popup";
 
 const COLORS = ["lightskyblue", "orange", "lime", "pink", "cornsilk", "magenta", "navajowhite"];
 
 export class PlaceholderReference {
     editor: Editor
-
-    constructor(editor: Editor) {
+    /**
+     * The tabstop number. 0 is the final cursor position of the snippet.
+     */
+    index: number
+    /**
+     * The values offered in the suggestion popup when this placeholder is selected, if it is a choice.
+     */
+    choices: string[] = null
+
+    constructor(editor: Editor, index: number) {
         this.editor = editor;
+        this.index = index;
     }
 
-    get marker(): Range<Decoration> {
+    get marker(): Marker {
         const state = editorToCodeMirrorState(this.editor);
-        const iter = state.field(markerStateField).iter();
-        while (iter.value) {
-            if (iter.value.spec.reference === this) {
-                return {
-                    from: iter.from,
-                    to: iter.to,
-                    value: iter.value
-                };
-            }
-
-            iter.next();
-        }
-
-        return null;
+        return state.field(markerStateField).find(marker => marker.reference === this && !marker.isMirror) ?? null;
     }
 
-    removeFromEditor(): void {
-        editorToCodeMirrorView(this.editor).dispatch({
-            effects: removeMarkBySpecAttribute.of({attribute: "reference", reference: this}),
-        });
+    get isFinal(): boolean {
+        return this.index === 0;
     }
 }
 
-interface MarkerRange {
+export interface MarkerRange {
     from: EditorPosition,
     to: EditorPosition
 }
 
-export default class SnippetManager {
-    private currentPlaceholderReferences: PlaceholderReference[] = [];
+/**
+ * The placeholders of a single inserted snippet. They are kept until the session ends, which allows jumping back to
+ * them.
+ */
+class SnippetSession {
+    readonly editor: Editor
+    readonly colorIndex: number
+    /**
+     * The placeholders in the order in which they are visited.
+     */
+    private readonly placeholders: PlaceholderReference[] = [];
+    private currentIndex = 0;
+
+    constructor(editor: Editor, colorIndex: number) {
+        this.editor = editor;
+        this.colorIndex = colorIndex;
+    }
 
-    handleSnippet(value: string, start: EditorPosition, editor: Editor) {
-        let colorIndex = 0;
-        for (; colorIndex < COLORS.length; colorIndex++) {
-            if (!this.currentPlaceholderReferences.find(p => p.marker.value.spec.attributes.class.endsWith(colorIndex + "")))
-                break;
-        }
+    get current(): PlaceholderReference {
+        return this.placeholders[this.currentIndex] ?? null;
+    }
 
-        if (colorIndex === COLORS.length) {
-            console.log("Completr: No colors left for snippet, using random color");
-            colorIndex = Math.floor(Math.random() * COLORS.length);
+    /**
+     * Adds the markers of the given tabstops and of the bounds of the snippet, which was inserted at the given offset.
+     */
+    start(snippet: RenderedSnippet, tabstops: RenderedTabstop[], startIndex: number) {
+        const effects: StateEffect<Marker>[] = [addMark.of({
+            from: startIndex,
+            to: startIndex + snippet.text.length,
+            reference: this,
+            colorIndex: this.colorIndex,
+            isMirror: false,
+            isBounds: true,
+        })];
+
+        const references = new Map<number, PlaceholderReference>();
+        for (let tabstop of tabstops) {
+            let reference = references.get(tabstop.index);
+            if (!reference) {
+                reference = new PlaceholderReference(this.editor, tabstop.index);
+                references.set(tabstop.index, reference);
+                this.placeholders.push(reference);
+            }
+            if (tabstop.choices)
+                reference.choices = tabstop.choices;
+
+            effects.push(addMark.of({
+                from: startIndex + tabstop.from,
+                to: startIndex + tabstop.to,
+                reference,
+                colorIndex: this.colorIndex,
+                isMirror: tabstop.isMirror,
+                isBounds: false,
+            }));
         }
 
+        editorToCodeMirrorView(this.editor).dispatch({effects});
+    }
+
+    /**
+     * Moves to the placeholder after the one at the given position.
+     * @return the new current placeholder or null if the last one was reached
+     */
+    next(pos: EditorPosition): PlaceholderReference {
+        this.updateCurrentIndex(pos);
+        if (this.currentIndex + 1 >= this.placeholders.length)
+            return null;
+
+        this.currentIndex++;
+        return this.current;
+    }
+
+    /**
+     * Moves to the placeholder before the one at the given position.
+     * @return the new current placeholder or null if the first one was reached
+     */
+    previous(pos: EditorPosition): PlaceholderReference {
+        this.updateCurrentIndex(pos);
+        if (this.currentIndex < 1)
+            return null;
+
+        this.currentIndex--;
+        return this.current;
+    }
+
+    isLast(placeholder: PlaceholderReference): boolean {
+        return this.placeholders.indexOf(placeholder) === this.placeholders.length - 1;
+    }
+
+    /**
+     * Returns the placeholder at the given position, preferring the current one if placeholders are nested.
+     */
+    placeholderAtPos(pos: EditorPosition): PlaceholderReference {
+        const current = this.current;
+        if (current && placeholderContains(current, pos))
+            return current;
+
+        return this.placeholders.find(p => placeholderContains(p, pos)) ?? null;
+    }
+
+    /**
+     * Checks if the given position is inside the range of the snippet.
+     */
+    contains(pos: EditorPosition): boolean {
+        const state = editorToCodeMirrorState(this.editor);
+        const bounds = state.field(markerStateField).find(marker => marker.reference === this);
+        if (!bounds)
+            return false;
+
+        const index = indexFromPos(state.doc, pos);
+        return bounds.from <= index && bounds.to >= index;
+    }
+
+    /**
+     * Removes all markers of this session.
+     */
+    end() {
+        editorToCodeMirrorView(this.editor).dispatch({
+            effects: [this, ...this.placeholders].map(reference => removeMarksByReference.of(reference)),
+        });
+    }
+
+    /*
+     * Makes the placeholder at the given position the current one, for example after clicking into it.
+     */
+    private updateCurrentIndex(pos: EditorPosition) {
+        const placeholder = this.placeholderAtPos(pos);
+        if (placeholder)
+            this.currentIndex = this.placeholders.indexOf(placeholder);
+    }
+}
+
+export default class SnippetManager {
+    /**
+     * The active snippet sessions. A snippet which is inserted inside of the innermost session is pushed on top and has
+     * to end before the outer one continues.
+     */
+    private sessions: SnippetSession[] = [];
+    private suggestionPopup: SuggestionPopup;
+
+    setSuggestionPopup(suggestionPopup: SuggestionPopup) {
+        this.suggestionPopup = suggestionPopup;
+    }
+
+    /**
+     * Adds the placeholders of a snippet which was just inserted at the given position and selects the first one.
+     */
+    handleSnippet(snippet: RenderedSnippet, start: EditorPosition, editor: Editor) {
         const editorView = editorToCodeMirrorView(editor);
-        const lines = value.split("\n");
-
-        for (let lineIndex = lines.length - 1; lineIndex >= 0; lineIndex--) {
-            const line = lines[lineIndex];
-
-            for (let i = line.length - 1; i >= 0; i--) {
-                const c = line.charAt(i);
-
-                if (c !== "#" && c !== "~")
-                    continue;
-
-                const lineBaseOffset = lineIndex === 0 ? start.ch : 0;
-                if (c === "~") {
-                    //Hack: Will break things if a # is on the same line
-                    const cursorPos = {line: start.line + lineIndex, ch: lineBaseOffset + i};
-                    editor.setCursor(cursorPos);
-                    editor.replaceRange("", cursorPos, {...cursorPos, ch: cursorPos.ch + 1});
-                    continue;
-                }
-
-                const reference = new PlaceholderReference(editor);
-                let mark = Decoration.mark({
-                    inclusive: true,
-                    attributes: {
-                        style: "border-width: 1px 0 1px 0;border-style: solid;",
-                        class: "completr-suggestion-placeholder" + colorIndex
-                    },
-                    reference: reference
-                }).range(
-                    indexFromPos(editorView.state.doc, {line: start.line + lineIndex, ch: lineBaseOffset + i}),
-                    indexFromPos(editorView.state.doc, {line: start.line + lineIndex, ch: lineBaseOffset + i + 1})
-                );
-
-                editorView.dispatch({effects: addMark.of(mark)});
-
-                this.currentPlaceholderReferences.unshift(reference);
-            }
+        const startIndex = indexFromPos(editorView.state.doc, start);
+
+        // Tabstops are visited in ascending order, the final one always comes last
+        const tabstops = [...snippet.tabstops].sort((a, b) => sortIndex(a.index) - sortIndex(b.index));
+        if (tabstops.every(t => t.index === 0)) {
+            // Only the cursor position has to be set
+            const finalTabstop = tabstops[0];
+            const offset = finalTabstop ? finalTabstop.to : snippet.text.length;
+            editor.setCursor(posFromIndex(editorView.state.doc, startIndex + offset));
+            return;
         }
 
-        this.selectMarker(this.currentPlaceholderReferences[0]);
-    }
+        // Snippets which are inserted outside of the current one replace all sessions
+        const currentSession = this.currentSession;
+        if (currentSession && (currentSession.editor !== editor || !currentSession.contains(start)))
+            this.clearAllPlaceholders();
 
-    consumeAndGotoNextMarker(editor: Editor): boolean {
-        //Remove the placeholder that we're inside of
-        const oldPlaceholder = this.currentPlaceholderReferences.shift();
-        const oldRange = SnippetManager.rangeFromPlaceholder(oldPlaceholder);
-        oldPlaceholder.removeFromEditor();
+        const session = new SnippetSession(editor, this.nextColorIndex());
+        session.start(snippet, tabstops, startIndex);
+        this.sessions.push(session);
+        this.selectMarker(session.current);
+    }
 
-        //If there's none left, return
-        if (this.currentPlaceholderReferences.length === 0)
+    /**
+     * Selects the placeholder after the one at the cursor. Reaching the final placeholder ends the current snippet,
+     * after which the outer snippet continues at the placeholder it was left at.
+     * @return false if there was no next placeholder
+     */
+    gotoNextMarker(editor: Editor): boolean {
+        const session = this.currentSession;
+        if (!session)
             return false;
 
-        const placeholder = this.currentPlaceholderReferences[0];
+        const cursor = editor.getCursor();
+        const oldRange = rangeFromPlaceholder(session.placeholderAtPos(cursor));
+        const placeholder = session.next(cursor);
+
+        //If there's none left, the snippet ends
+        if (!placeholder) {
+            this.endCurrentSession();
+            return false;
+        }
 
-        const newRange = SnippetManager.rangeFromPlaceholder(placeholder);
+        const newRange = rangeFromPlaceholder(placeholder);
         if (!newRange)
             return false;
 
-        if (newRange.from.ch <= oldRange.from.ch && newRange.to.ch >= oldRange.to.ch) {
+        if (placeholder.isFinal && session.isLast(placeholder)) {
+            //Reaching the final position ends the snippet
+            this.endCurrentSession();
+            editor.setSelection(newRange.from, newRange.to);
+        } else if (oldRange && rangeContains(newRange, oldRange)) {
             //If the old placeholder is inside of the next one, we just move the cursor
             editor.setCursor({...newRange.to});
         } else {
@@ -127,56 +248,139 @@ export default class SnippetManager {
         return true;
     }
 
-    placeholderAtPos(pos: EditorPosition): PlaceholderReference {
-        for (let i = this.currentPlaceholderReferences.length - 1; i >= 0; i--) {
-            const placeholder = this.currentPlaceholderReferences[i];
-            const range = SnippetManager.rangeFromPlaceholder(placeholder);
-            //Removes invalid placeholders
-            if (!range) {
-                this.currentPlaceholderReferences.slice(i, 1);
-                continue;
-            }
+    /**
+     * Selects the placeholder before the one at the cursor, without leaving the current snippet.
+     * @return false if there was no previous placeholder
+     */
+    gotoPreviousMarker(editor: Editor): boolean {
+        const placeholder = this.currentSession?.previous(editor.getCursor());
+        if (!placeholder)
+            return false;
+
+        this.selectMarker(placeholder);
+        return true;
+    }
 
-            //Return the first one that matches, because it should be the one where we're at
-            if (range.from.ch <= pos.ch && range.to.ch >= pos.ch)
+    /**
+     * Returns the placeholder at the given position, searching the innermost snippet first.
+     */
+    placeholderAtPos(pos: EditorPosition): PlaceholderReference {
+        for (let i = this.sessions.length - 1; i >= 0; i--) {
+            const placeholder = this.sessions[i].placeholderAtPos(pos);
+            if (placeholder)
                 return placeholder;
         }
 
         return null;
     }
 
+    /**
+     * Ends all snippets which don't contain the given position anymore, starting with the innermost one.
+     */
+    handleCursorActivity(pos: EditorPosition) {
+        while (this.currentSession && !this.currentSession.contains(pos))
+            this.endCurrentSession();
+    }
+
     selectMarker(reference: PlaceholderReference) {
         if (!reference)
             return;
 
-        const from = posFromIndex(editorToCodeMirrorState(reference.editor).doc, reference.marker.from);
-        reference.editor.setSelection(from, {...from, ch: from.ch + 1});
+        const range = rangeFromPlaceholder(reference);
+        if (!range)
+            return;
+
+        if (!reference.choices || !this.suggestionPopup) {
+            reference.editor.setSelection(range.from, range.to);
+            return;
+        }
+
+        //The cursor is placed at the start to not filter the choices by the default value, which is still replaced
+        // when typing
+        reference.editor.setSelection(range.to, range.from);
+        this.suggestionPopup.openChoices(reference.editor);
+    }
+
+    /**
+     * Returns the range and choices of the current placeholder if it is a choice and contains the given position.
+     */
+    choicesAtPos(pos: EditorPosition): { range: MarkerRange, choices: string[] } | null {
+        const placeholder = this.currentSession?.current;
+        if (!placeholder?.choices)
+            return null;
+
+        const range = rangeFromPlaceholder(placeholder);
+        if (!range || !rangeContains(range, {from: pos, to: pos}))
+            return null;
+
+        return {range, choices: placeholder.choices};
     }
 
     clearAllPlaceholders() {
-        if (this.currentPlaceholderReferences.length === 0)
+        if (this.sessions.length === 0)
             return;
-        const firstRef = this.currentPlaceholderReferences[0];
-        const view = editorToCodeMirrorView(firstRef.editor);
-        view.dispatch({
-            effects: clearMarks.of(null)
-        });
 
-        this.currentPlaceholderReferences = [];
+        for (let editor of new Set(this.sessions.map(session => session.editor))) {
+            editorToCodeMirrorView(editor).dispatch({
+                effects: clearMarks.of(null)
+            });
+        }
+
+        this.sessions = [];
     }
 
-    private static rangeFromPlaceholder(reference: PlaceholderReference): MarkerRange {
-        const marker = reference.marker;
-        if (!marker)
-            return null;
+    private get currentSession(): SnippetSession {
+        return this.sessions[this.sessions.length - 1] ?? null;
+    }
 
-        return {
-            from: posFromIndex(editorToCodeMirrorState(reference.editor).doc, marker.from),
-            to: posFromIndex(editorToCodeMirrorState(reference.editor).doc, marker.to)
-        };
+    private endCurrentSession() {
+        this.sessions.pop()?.end();
+    }
+
+    private nextColorIndex(): number {
+        for (let colorIndex = 0; colorIndex < COLORS.length; colorIndex++) {
+            if (!this.sessions.find(session => session.colorIndex === colorIndex))
+                return colorIndex;
+        }
+
+        console.log("Completr: No colors left for snippet, using random color");
+        return Math.floor(Math.random() * COLORS.length);
     }
 
     onunload() {
         this.clearAllPlaceholders();
     }
 }
+
+function rangeFromPlaceholder(reference: PlaceholderReference): MarkerRange {
+    const marker = reference?.marker;
+    if (!marker)
+        return null;
+
+    const doc = editorToCodeMirrorState(reference.editor).doc;
+    return {
+        from: posFromIndex(doc, marker.from),
+        to: posFromIndex(doc, marker.to)
+    };
+}
+
+function placeholderContains(reference: PlaceholderReference, pos: EditorPosition): boolean {
+    const marker = reference.marker;
+    if (!marker)
+        return false;
+
+    const index = indexFromPos(editorToCodeMirrorState(reference.editor).doc, pos);
+    return marker.from <= index && marker.to >= index;
+}
+
+function rangeContains(outer: MarkerRange, inner: MarkerRange): boolean {
+    return comparePos(outer.from, inner.from) <= 0 && comparePos(outer.to, inner.to) >= 0;
+}
+
+function sortIndex(index: number): number {
+    return index === 0 ? Number.MAX_SAFE_INTEGER : index;
+}
+
+function comparePos(a: EditorPosition, b: EditorPosition): number {
+    return a.line - b.line || a.ch - b.ch;
+}
@@ -0,0 +1,64 @@
+import {App, Editor, moment, TFile} from "obsidian";
+import {VariableNode} from "./snippet";
+
+const DEFAULT_DATE_FORMAT = "YYYY-MM-DD";
+const DEFAULT_TIME_FORMAT = "HH:mm";
+
+/**
+ * Everything needed to resolve the variables of a snippet, captured at the time it is inserted.
+ */
+export interface SnippetVariableContext {
+    app: App,
+    editor: Editor,
+    file: TFile | null,
+    selection: string,
+    clipboard: string,
+}
+
+/**
+ * Returns the value of the given variable or null if the variable is unknown.
+ *
+ * Supported variables:
+ * - `${DATE}`, `${DATE:format}` and `${TIME}`, `${TIME:format}` use moment.js formats
+ * - `${FILENAME}`, `${FILEPATH}` and `${FOLDER}` of the current file
+ * - `${SELECTION}` is the selected text
+ * - `${CLIPBOARD}` is the text in the clipboard
+ * - `${FRONTMATTER:key}` is the value of a front matter property of the current file
+ */
+export function resolveSnippetVariable(variable: VariableNode, context: SnippetVariableContext): string | null {
+    const {file} = context;
+
+    switch (variable.name) {
+        case "DATE":
+            return moment().format(variable.argument || DEFAULT_DATE_FORMAT);
+        case "TIME":
+            return moment().format(variable.argument || DEFAULT_TIME_FORMAT);
+        case "FILENAME":
+            return file?.basename ?? "";
+        case "FILEPATH":
+            return file?.path ?? "";
+        case "FOLDER":
+            return file?.parent?.path ?? "";
+        case "SELECTION":
+            return context.selection;
+        case "CLIPBOARD":
+            return context.clipboard;
+        case "FRONTMATTER":
+            return getFrontMatterValue(context.app, file, variable.argument);
+        default:
+            return null;
+    }
+}
+
+function getFrontMatterValue(app: App, file: TFile | null, key: string | null): string {
+    if (!file || !key)
+        return "";
+
+    const value = app.metadataCache.getFileCache(file)?.frontmatter?.[key];
+    if (value === undefined || value === null)
+        return "";
+    if (Array.isArray(value))
+        return value.join(", ");
+
+    return value + "";
+}